@@ -0,0 +1,9 @@
+/**
+ * mermaid-to-reactflow executable: runs the command in main.ts with the process's arguments.
+ */
+
+import { main } from './main';
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
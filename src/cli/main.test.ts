@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main } from './main';
+
+describe('mermaid-to-reactflow convert', () => {
+  let directory: string;
+  let output: string;
+  let errors: string[];
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mermaid-to-reactflow-'));
+    output = '';
+    errors = [];
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      output += String(chunk);
+      return true;
+    });
+    vi.spyOn(console, 'error').mockImplementation(message => {
+      errors.push(String(message));
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('converts every mermaid block of a markdown file with CRLF line endings', async () => {
+    const input = join(directory, 'note.md');
+    await writeFile(input, [
+      '# Flow',
+      '',
+      '```mermaid',
+      'flowchart LR',
+      '  A --> B',
+      '```',
+      '',
+      '## States',
+      '',
+      '~~~mermaid',
+      'stateDiagram-v2',
+      '  [*] --> Idle',
+      '  Idle --> [*] : stop',
+      '~~~',
+      '',
+    ].join('\r\n'));
+
+    expect(await main(['convert', input, '--compact'])).toBe(0);
+    const diagrams = JSON.parse(output);
+    expect(diagrams.map(({ name, type }: { name: string; type: string }) => [name, type])).toEqual([
+      ['Flow', 'flowchart'],
+      ['States', 'state'],
+    ]);
+    expect(diagrams[0].nodes.map(({ id }: { id: string }) => id)).toEqual(['A', 'B']);
+    expect(errors).toEqual([]);
+  });
+
+  it('reports problems at their line in the markdown file', async () => {
+    const input = join(directory, 'note.md');
+    await writeFile(input, '# Flow\r\n\r\n```mermaid\r\n\r\nflowchart LR\r\n  A --> B\r\n  C[oops\r\n```\r\n');
+
+    expect(await main(['convert', input])).toBe(1);
+    expect(errors).toEqual([`${input}:7:4: error: unterminated node label, rest of statement ignored`]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * mermaid-to-reactflow command line: converts a Mermaid file, or every Mermaid block
+ * in a markdown file, to React Flow JSON.
+ * Usage: mermaid-to-reactflow convert diagram.mmd -o flow.json
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { extname } from 'path';
+import {
+  convertMermaidToReactFlow,
+  extractMermaidDiagrams,
+  isSupportedDiagram,
+  ConversionDiagnostic,
+  ConversionOptions,
+  MindmapLayout,
+} from '../core';
+
+const USAGE = `Usage: mermaid-to-reactflow convert <input> [options]
+
+Converts a Mermaid file (.mmd, .mermaid) to React Flow JSON ({ nodes, edges }).
+A markdown file (.md, .markdown) converts every Mermaid block in it to an array
+of { name, type, nodes, edges }, skipping diagram types that aren't supported.
+
+Options:
+  -o, --output <file>         Write the JSON to a file instead of stdout
+  --mindmap-layout <layout>   radial (default) or tree
+  --compact                   Don't indent the JSON
+  -h, --help                  Show this help`;
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+const MINDMAP_LAYOUTS: MindmapLayout[] = ['radial', 'tree'];
+
+interface CliArguments {
+  input: string;
+  output?: string;
+  options: ConversionOptions;
+  compact: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseArguments(args: string[]): CliArguments {
+  const [command, ...rest] = args;
+  if (command !== 'convert') {
+    throw new UsageError(command ? `unknown command \`${command}\`` : 'missing command');
+  }
+
+  const parsed: Partial<CliArguments> & { options: ConversionOptions; compact: boolean } = { options: {}, compact: false };
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index];
+    const value = () => {
+      const next = rest[++index];
+      if (next === undefined) throw new UsageError(`${arg} needs a value`);
+      return next;
+    };
+
+    if (arg === '-o' || arg === '--output') {
+      parsed.output = value();
+    } else if (arg === '--mindmap-layout') {
+      const layout = value() as MindmapLayout;
+      if (!MINDMAP_LAYOUTS.includes(layout)) throw new UsageError(`unknown mindmap layout \`${layout}\``);
+      parsed.options.mindmapLayout = layout;
+    } else if (arg === '--compact') {
+      parsed.compact = true;
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`unknown option \`${arg}\``);
+    } else if (parsed.input === undefined) {
+      parsed.input = arg;
+    } else {
+      throw new UsageError(`unexpected argument \`${arg}\``);
+    }
+  }
+
+  if (parsed.input === undefined) {
+    throw new UsageError('missing input file');
+  }
+  return parsed as CliArguments;
+}
+
+// Compiler-style problem lines; lineOffset places a markdown block's lines within its file
+function reportDiagnostics(file: string, diagnostics: ConversionDiagnostic[], lineOffset = 0): void {
+  for (const diagnostic of diagnostics) {
+    console.error(`${file}:${diagnostic.line + lineOffset}:${diagnostic.column}: ${diagnostic.severity}: ${diagnostic.message}`);
+  }
+}
+
+async function convertFile({ input, options }: CliArguments): Promise<{ json: unknown; errors: number }> {
+  const source = await readFile(input, 'utf8');
+  let errors = 0;
+
+  if (!MARKDOWN_EXTENSIONS.has(extname(input).toLowerCase())) {
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(source, options);
+    reportDiagnostics(input, diagnostics);
+    errors += diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+    return { json: { nodes, edges }, errors };
+  }
+
+  const converted = [];
+  for (const diagram of extractMermaidDiagrams(source)) {
+    const lineOffset = diagram.line - 1;
+    if (!isSupportedDiagram(diagram.code)) {
+      console.error(`${input}:${lineOffset + 1}:1: warning: diagram \`${diagram.name}\` is not a supported type, skipped`);
+      continue;
+    }
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(diagram.code, options);
+    reportDiagnostics(input, diagnostics, lineOffset);
+    errors += diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+    converted.push({ name: diagram.name, type: diagram.type, nodes, edges });
+  }
+  return { json: converted, errors };
+}
+
+// Exit codes: 0 converted cleanly, 1 converted with errors or failed, 2 bad usage
+export async function main(args: string[]): Promise<number> {
+  if (args.length === 0 || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return args.length === 0 ? 2 : 0;
+  }
+
+  let cliArguments: CliArguments;
+  try {
+    cliArguments = parseArguments(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`mermaid-to-reactflow: ${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const { json, errors } = await convertFile(cliArguments);
+    const text = JSON.stringify(json, null, cliArguments.compact ? undefined : 2) + '\n';
+    if (cliArguments.output) {
+      await writeFile(cliArguments.output, text, 'utf8');
+    } else {
+      process.stdout.write(text);
+    }
+    return errors > 0 ? 1 : 0;
+  } catch (error) {
+    console.error(`mermaid-to-reactflow: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { formatGenerics, parseClassDiagram } from './classDiagram';
+import { convertMermaidToReactFlow } from './mermaidToReactFlow';
+
+const CLASS_DIAGRAM = `classDiagram
+    class Animal {
+      +String name
+      +eat() void
+    }
+    Animal <|-- Dog
+    Dog "1" --> "*" Bone : chews`;
+
+describe('class diagrams', () => {
+  it('parses classes with their members and relations', () => {
+    expect(parseClassDiagram(CLASS_DIAGRAM)).toEqual({
+      classes: [
+        {
+          id: 'Animal',
+          label: 'Animal',
+          attributes: [{ visibility: '+', text: 'String name' }],
+          methods: [{ visibility: '+', text: 'eat() void' }],
+        },
+        { id: 'Dog', label: 'Dog', attributes: [], methods: [] },
+        { id: 'Bone', label: 'Bone', attributes: [], methods: [] },
+      ],
+      relations: [
+        { source: 'Animal', target: 'Dog', start: 'triangle', end: 'none', dashed: false },
+        {
+          source: 'Dog',
+          target: 'Bone',
+          start: 'none',
+          end: 'arrow',
+          dashed: false,
+          label: 'chews',
+          sourceCardinality: '1',
+          targetCardinality: '*',
+        },
+      ],
+      direction: 'TB',
+      diagnostics: [],
+    });
+  });
+
+  it('converts each class to a node listing its members', async () => {
+    const { nodes, diagnostics } = await convertMermaidToReactFlow(CLASS_DIAGRAM);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.type, node.data])).toEqual([
+      [
+        'Animal',
+        'umlClass',
+        {
+          label: 'Animal',
+          attributes: [{ visibility: '+', text: 'String name' }],
+          methods: [{ visibility: '+', text: 'eat() void' }],
+        },
+      ],
+      ['Dog', 'umlClass', { label: 'Dog', attributes: [], methods: [] }],
+      ['Bone', 'umlClass', { label: 'Bone', attributes: [], methods: [] }],
+    ]);
+  });
+
+  it('converts relations with their UML ends, labels and cardinalities', async () => {
+    const { edges } = await convertMermaidToReactFlow(CLASS_DIAGRAM);
+    expect(edges.map(edge => [edge.source, edge.target, edge.type, edge.label, edge.data])).toEqual([
+      ['Animal', 'Dog', 'relation', undefined, { relation: 'inheritance', markers: { start: 'triangle', end: 'none' } }],
+      [
+        'Dog',
+        'Bone',
+        'relation',
+        'chews',
+        { relation: 'association', markers: { start: 'none', end: 'arrow' }, sourceLabel: '1', targetLabel: '*' },
+      ],
+    ]);
+    expect(edges[0].markerStart).toBe('relation-Animal-Dog-0-start');
+  });
+
+  it('writes generics with angle brackets', () => {
+    expect(formatGenerics('List~int~ items')).toBe('List<int> items');
+    expect(formatGenerics('Map~String, List~int~~')).toBe('Map<String, List<int>>');
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Mermaid classDiagram conversion: classes become UML class nodes with attribute
+ * and method compartments, relationships become edges with UML end markers.
+ * Format: Animal <|-- Duck, Customer "1" --> "*" Order : places
+ */
+
+import { Node, Edge, MarkerType } from 'reactflow';
+import type { ReactFlowData } from './mermaidToReactFlow';
+import { ConversionDiagnostic, createLineDiagnostic } from './diagnostics';
+import { FlowDirection, normalizeDirection } from './flowchartParser';
+import { getHandlePositions, layoutBoxes } from './diagramLayout';
+
+export type ClassMemberVisibility = '+' | '-' | '#' | '~';
+
+export interface ClassMember {
+  visibility?: ClassMemberVisibility;
+  text: string; // Without visibility and classifier; generics written as <T>
+  classifier?: 'static' | 'abstract';
+}
+
+// What is drawn where a relationship meets a class
+export type RelationEnd = 'none' | 'arrow' | 'triangle' | 'diamond' | 'diamond-filled' | 'lollipop';
+
+interface ClassInfo {
+  id: string;
+  label: string;
+  annotation?: string;
+  attributes: ClassMember[];
+  methods: ClassMember[];
+}
+
+interface ClassRelation {
+  source: string;
+  target: string;
+  start: RelationEnd;
+  end: RelationEnd;
+  dashed: boolean;
+  label?: string;
+  sourceCardinality?: string;
+  targetCardinality?: string;
+}
+
+const RELATION_PATTERN = new RegExp(
+  '^(\\w+)(?:~[^\\s]*~)?\\s*(?:"([^"]*)"\\s*)?' + // Source class and cardinality
+  '(<\\||\\*|o|<|\\(\\))?(--|\\.\\.)(\\|>|\\*|o|>|\\(\\))?' + // Operator, e.g. <|-- or ..>
+  '\\s*(?:"([^"]*)"\\s*)?(\\w+)(?:~[^\\s]*~)?' + // Cardinality and target class
+  '\\s*(?::\\s*(.*))?$' // Label
+);
+
+const RELATION_ENDS: Record<string, RelationEnd> = {
+  '<|': 'triangle',
+  '|>': 'triangle',
+  '*': 'diamond-filled',
+  'o': 'diamond',
+  '<': 'arrow',
+  '>': 'arrow',
+  '()': 'lollipop',
+};
+
+// Statements we recognise but do not draw
+const UNSUPPORTED_KEYWORDS = new Set(['note', 'click', 'callback', 'link', 'style', 'classDef', 'cssClass']);
+
+const RELATION_COLOR = '#475569';
+const MEMBER_LINE_HEIGHT = 18;
+
+// Mermaid writes generics with tildes: List~Map~K, V~~ becomes List<Map<K, V>>
+export function formatGenerics(text: string): string {
+  return text.replace(/~/g, (_, offset: number) =>
+    /\w/.test(text[offset - 1] ?? '') && /\w/.test(text[offset + 1] ?? '') ? '<' : '>'
+  );
+}
+
+function parseMember(text: string): { member: ClassMember; isMethod: boolean } {
+  let rest = text.trim();
+  let visibility: ClassMemberVisibility | undefined;
+  if (/^[+\-#~]/.test(rest)) {
+    visibility = rest[0] as ClassMemberVisibility;
+    rest = rest.slice(1).trim();
+  }
+
+  // $ marks static and * abstract members; on methods they follow the parameter list
+  let classifier: ClassMember['classifier'];
+  const marker = rest.match(/\)([$*])/) ?? rest.match(/([$*])$/);
+  if (marker && marker.index !== undefined) {
+    classifier = marker[1] === '$' ? 'static' : 'abstract';
+    const at = marker.index + marker[0].length - 1;
+    rest = (rest.slice(0, at) + rest.slice(at + 1)).trim();
+  }
+
+  return {
+    member: { visibility, text: formatGenerics(rest), classifier },
+    isMethod: rest.includes('(')
+  };
+}
+
+export interface ParsedClassDiagram {
+  classes: ClassInfo[];
+  relations: ClassRelation[];
+  direction: FlowDirection;
+  diagnostics: ConversionDiagnostic[];
+}
+
+export function parseClassDiagram(code: string): ParsedClassDiagram {
+  const lines = code.split('\n');
+  const classes = new Map<string, ClassInfo>();
+  const relations: ClassRelation[] = [];
+  const diagnostics: ConversionDiagnostic[] = [];
+  let direction: FlowDirection = 'TB';
+  let openClass: ClassInfo | null = null; // Inside class Name { ... }
+  let namespaceDepth = 0;
+  let seenHeader = false;
+
+  const ensureClass = (id: string): ClassInfo => {
+    let info = classes.get(id);
+    if (!info) {
+      info = { id, label: id, attributes: [], methods: [] };
+      classes.set(id, info);
+    }
+    return info;
+  };
+
+  const addMember = (info: ClassInfo, text: string) => {
+    const annotation = text.match(/^<<\s*(.+?)\s*>>$/);
+    if (annotation) {
+      info.annotation = annotation[1];
+      return;
+    }
+    const { member, isMethod } = parseMember(text);
+    (isMethod ? info.methods : info.attributes).push(member);
+  };
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%%')) continue;
+
+    if (!seenHeader) {
+      seenHeader = true;
+      if (/^classDiagram(-v2)?\b/.test(line)) continue;
+    }
+
+    if (openClass) {
+      if (line === '}') {
+        openClass = null;
+      } else {
+        addMember(openClass, line);
+      }
+      continue;
+    }
+
+    const directionMatch = line.match(/^direction\s+(\w+)$/);
+    if (directionMatch) {
+      const normalized = normalizeDirection(directionMatch[1]);
+      if (normalized) {
+        direction = normalized;
+      } else {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, `unknown direction \`${directionMatch[1]}\`, using TB`));
+      }
+      continue;
+    }
+
+    // Namespaces only group classes; their contents are read as if at the top level
+    if (/^namespace\s+[\w.]+\s*\{$/.test(line)) {
+      namespaceDepth++;
+      continue;
+    }
+    if (line === '}') {
+      if (namespaceDepth > 0) {
+        namespaceDepth--;
+      } else {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, 'unexpected `}`, ignored'));
+      }
+      continue;
+    }
+
+    const classMatch = line.match(/^class\s+(\w+)(~.+~)?(?:\s*\["([^"]*)"\])?(?:\s*:::\s*[\w-]+)?\s*(\{)?\s*(\})?$/);
+    if (classMatch) {
+      const [, id, generics, label, opensBody, closesBody] = classMatch;
+      const info = ensureClass(id);
+      info.label = label ?? (generics ? formatGenerics(id + generics) : id);
+      if (opensBody && !closesBody) {
+        openClass = info;
+      }
+      continue;
+    }
+
+    const annotationMatch = line.match(/^<<\s*(.+?)\s*>>\s*(\w+)$/);
+    if (annotationMatch) {
+      ensureClass(annotationMatch[2]).annotation = annotationMatch[1];
+      continue;
+    }
+
+    const relationMatch = line.match(RELATION_PATTERN);
+    if (relationMatch) {
+      const [, source, sourceCardinality, startMarker, stroke, endMarker, targetCardinality, target, label] = relationMatch;
+      ensureClass(source);
+      ensureClass(target);
+      relations.push({
+        source,
+        target,
+        start: RELATION_ENDS[startMarker] ?? 'none',
+        end: RELATION_ENDS[endMarker] ?? 'none',
+        dashed: stroke === '..',
+        label: label?.trim() || undefined,
+        sourceCardinality,
+        targetCardinality
+      });
+      continue;
+    }
+
+    const memberMatch = line.match(/^(\w+)\s*:\s*(.+)$/);
+    if (memberMatch) {
+      addMember(ensureClass(memberMatch[1]), memberMatch[2]);
+      continue;
+    }
+
+    const keyword = line.split(/\s+/)[0];
+    const message = UNSUPPORTED_KEYWORDS.has(keyword)
+      ? `unsupported class diagram syntax \`${keyword}\`, ignored`
+      : 'unrecognised class diagram statement, ignored';
+    diagnostics.push(createLineDiagnostic('warning', lines, index, message));
+  }
+
+  if (openClass) {
+    diagnostics.push(createLineDiagnostic(
+      'error', lines, lines.length - 1, `class \`${openClass.id}\` is missing its closing \`}\``
+    ));
+  }
+
+  return { classes: [...classes.values()], relations, direction, diagnostics };
+}
+
+// Class boxes grow with their longest line and number of members
+function calculateClassSize(info: ClassInfo): { width: number; height: number } {
+  const memberText = (member: ClassMember) => `${member.visibility ?? ''}${member.text}`;
+  const lines = [info.label, ...info.attributes.map(memberText), ...info.methods.map(memberText)];
+  const longest = Math.max(...lines.map(line => line.length), info.annotation ? info.annotation.length + 4 : 0);
+  const width = Math.max(140, Math.min(360, longest * 7 + 32));
+
+  const header = 36 + (info.annotation ? 16 : 0);
+  const compartment = (count: number) => Math.max(1, count) * MEMBER_LINE_HEIGHT + 12;
+  return { width, height: header + compartment(info.attributes.length) + compartment(info.methods.length) };
+}
+
+function relationKind(relation: ClassRelation): string {
+  const ends = [relation.start, relation.end];
+  if (ends.includes('triangle')) return relation.dashed ? 'realization' : 'inheritance';
+  if (ends.includes('diamond-filled')) return 'composition';
+  if (ends.includes('diamond')) return 'aggregation';
+  if (ends.includes('lollipop')) return 'lollipop';
+  if (ends.includes('arrow')) return relation.dashed ? 'dependency' : 'association';
+  return relation.dashed ? 'dashed-link' : 'link';
+}
+
+export function layoutClassDiagram(parsed: ParsedClassDiagram): ReactFlowData {
+  const { classes, relations, direction } = parsed;
+  const { sourcePosition, targetPosition } = getHandlePositions(direction);
+
+  const sizes = new Map(classes.map(info => [info.id, calculateClassSize(info)]));
+  const positions = layoutBoxes(
+    classes.map(info => ({ id: info.id, ...sizes.get(info.id)! })),
+    relations,
+    { direction }
+  );
+
+  const nodes: Node[] = classes.map(info => {
+    const size = sizes.get(info.id)!;
+    return {
+      id: info.id,
+      type: 'umlClass',
+      position: positions.get(info.id) ?? { x: 0, y: 0 },
+      data: {
+        label: info.label,
+        annotation: info.annotation,
+        attributes: info.attributes,
+        methods: info.methods
+      },
+      style: { width: size.width, height: size.height },
+      sourcePosition,
+      targetPosition,
+    };
+  });
+
+  const edges: Edge[] = relations.map((relation, index) => {
+    const id = `relation-${relation.source}-${relation.target}-${index}`;
+
+    // Open arrows are built in; UML triangles, diamonds and lollipops are defined by EdgeMarkers
+    const toMarker = (kind: RelationEnd, position: 'start' | 'end') => {
+      switch (kind) {
+        case 'none':
+          return undefined;
+        case 'arrow':
+          return { type: MarkerType.Arrow, width: 20, height: 20, color: RELATION_COLOR };
+        default:
+          return `${id}-${position}`;
+      }
+    };
+
+    return {
+      id,
+      source: relation.source,
+      target: relation.target,
+      type: 'relation',
+      label: relation.label,
+      style: {
+        stroke: RELATION_COLOR,
+        strokeWidth: 1.5,
+        strokeDasharray: relation.dashed ? '6,4' : undefined,
+      },
+      markerStart: toMarker(relation.start, 'start'),
+      markerEnd: toMarker(relation.end, 'end'),
+      data: {
+        relation: relationKind(relation),
+        markers: { start: relation.start, end: relation.end },
+        sourceLabel: relation.sourceCardinality,
+        targetLabel: relation.targetCardinality
+      },
+    };
+  });
+
+  return { nodes, edges };
+}
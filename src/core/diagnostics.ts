@@ -0,0 +1,43 @@
+import type { SourceSpan } from './flowchartParser';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface ConversionDiagnostic {
+  severity: DiagnosticSeverity;
+  line: number;   // 1-based
+  column: number; // 1-based
+  text: string;   // Offending source text
+  message: string;
+}
+
+export function createDiagnostic(
+  severity: DiagnosticSeverity,
+  source: string,
+  span: SourceSpan,
+  message: string
+): ConversionDiagnostic {
+  return {
+    severity,
+    line: span.start.line,
+    column: span.start.column,
+    text: source.slice(span.start.offset, span.end.offset),
+    message
+  };
+}
+
+// For line-oriented parsers that only know the (0-based) line index
+export function createLineDiagnostic(
+  severity: DiagnosticSeverity,
+  lines: string[],
+  lineIndex: number,
+  message: string
+): ConversionDiagnostic {
+  const line = lines[lineIndex] ?? '';
+  return {
+    severity,
+    line: lineIndex + 1,
+    column: line.length - line.trimStart().length + 1,
+    text: line.trim(),
+    message
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Layout helpers shared by the diagram converters.
+ */
+
+import { Position } from 'reactflow';
+import dagre from 'dagre';
+import type { FlowDirection } from './flowchartParser';
+
+export interface LayoutBox {
+  id: string;
+  width: number;
+  height: number;
+}
+
+export interface LayoutLink {
+  source: string;
+  target: string;
+  minlen?: number;
+}
+
+// Which sides of a node edges leave from and enter into for a given flow direction
+export function getHandlePositions(direction: FlowDirection): { sourcePosition: Position; targetPosition: Position } {
+  switch (direction) {
+    case 'BT':
+      return { sourcePosition: Position.Top, targetPosition: Position.Bottom };
+    case 'LR':
+      return { sourcePosition: Position.Right, targetPosition: Position.Left };
+    case 'RL':
+      return { sourcePosition: Position.Left, targetPosition: Position.Right };
+    default:
+      return { sourcePosition: Position.Bottom, targetPosition: Position.Top };
+  }
+}
+
+// Top-left position of each box after a dagre layout
+export function layoutBoxes(
+  boxes: LayoutBox[],
+  links: LayoutLink[],
+  options: { direction: FlowDirection; nodesep?: number; ranksep?: number; margin?: number }
+): Map<string, { x: number; y: number }> {
+  const g = new dagre.graphlib.Graph({ multigraph: true });
+  g.setGraph({
+    rankdir: options.direction,
+    nodesep: options.nodesep ?? 60,
+    ranksep: options.ranksep ?? 80,
+    marginx: options.margin ?? 50,
+    marginy: options.margin ?? 50
+  });
+  g.setDefaultEdgeLabel(() => ({}));
+
+  boxes.forEach(box => g.setNode(box.id, { width: box.width, height: box.height }));
+  links.forEach((link, index) => {
+    if (g.hasNode(link.source) && g.hasNode(link.target)) {
+      g.setEdge(link.source, link.target, { minlen: link.minlen ?? 1 }, String(index));
+    }
+  });
+
+  dagre.layout(g);
+
+  const positions = new Map<string, { x: number; y: number }>();
+  boxes.forEach(box => {
+    const node = g.node(box.id);
+    positions.set(box.id, { x: node.x - box.width / 2, y: node.y - box.height / 2 });
+  });
+  return positions;
+}
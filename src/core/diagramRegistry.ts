@@ -0,0 +1,71 @@
+/**
+ * Registry of the Mermaid diagram types the converter understands. Each type supplies
+ * a detector for its declaration line, a parser and a layout function; the built-in
+ * types are registered by mermaidToReactFlow, and in-house types can be added alongside.
+ */
+
+import type { ConversionDiagnostic } from './diagnostics';
+import type { ConversionOptions, ConversionResult, ReactFlowData } from './mermaidToReactFlow';
+
+export interface ParsedDiagram {
+  diagnostics: ConversionDiagnostic[];
+}
+
+export interface DiagramConverter<TParsed extends ParsedDiagram = ParsedDiagram> {
+  type: string;
+  // Gets the declaration: the first line that isn't blank or a %% comment/metadata line
+  detect: (declaration: string) => boolean;
+  parse: (code: string, options: ConversionOptions) => TParsed;
+  // Layout problems are reported by pushing onto parsed.diagnostics
+  layout: (parsed: TParsed, options: ConversionOptions) => ReactFlowData;
+  // Long diagrams open at full size rather than zoomed out to fit the view
+  fitView?: boolean;
+}
+
+// What the registry keeps: each converter's parse is paired with its own layout,
+// so the registry never needs to know the type in between
+export interface RegisteredDiagramConverter {
+  type: string;
+  detect: (declaration: string) => boolean;
+  convert: (code: string, options: ConversionOptions) => ConversionResult;
+  fitView?: boolean;
+}
+
+const converters: RegisteredDiagramConverter[] = [];
+
+// Registering a type that already exists replaces it, keeping its place in the detection order
+export function registerDiagramConverter<TParsed extends ParsedDiagram>(converter: DiagramConverter<TParsed>): void {
+  const registered: RegisteredDiagramConverter = {
+    type: converter.type,
+    detect: converter.detect,
+    convert: (code, options) => {
+      const parsed = converter.parse(code, options);
+      const { nodes, edges } = converter.layout(parsed, options);
+      return { nodes, edges, diagnostics: parsed.diagnostics };
+    },
+    fitView: converter.fitView,
+  };
+
+  const index = converters.findIndex(existing => existing.type === converter.type);
+  if (index >= 0) {
+    converters[index] = registered;
+  } else {
+    converters.push(registered);
+  }
+}
+
+export function getDiagramConverters(): readonly RegisteredDiagramConverter[] {
+  return converters;
+}
+
+export function getDiagramDeclaration(code: string): string {
+  return code
+    .split('\n')
+    .map(line => line.trim())
+    .find(line => line && !line.startsWith('%%')) ?? '';
+}
+
+export function findDiagramConverter(code: string): RegisteredDiagramConverter | undefined {
+  const declaration = getDiagramDeclaration(code);
+  return declaration ? converters.find(converter => converter.detect(declaration)) : undefined;
+}
@@ -6,6 +6,8 @@ export interface SavedDiagram {
   nodes: Node[];
   edges: Edge[];
   originalMermaidCode?: string;
+  // Regenerated from the edited nodes and edges; flowcharts only
+  mermaidCode?: string;
   createdAt: string;
   updatedAt: string;
   metadata?: {
@@ -91,6 +93,7 @@ export function importDiagram(jsonString: string): SavedDiagram | null {
       nodes: parsed.nodes,
       edges: parsed.edges,
       originalMermaidCode: parsed.originalMermaidCode,
+      mermaidCode: parsed.mermaidCode,
       metadata: parsed.metadata,
     });
   } catch (error) {
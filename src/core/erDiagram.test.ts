@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { parseErDiagram } from './erDiagram';
+import { convertMermaidToReactFlow } from './mermaidToReactFlow';
+
+const ER_DIAGRAM = `erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    ORDER |o..|{ LINE_ITEM : contains
+    ORDER {
+      int id PK
+      string status
+    }`;
+
+describe('entity relationship diagrams', () => {
+  it('parses entities, attributes and relationship cardinalities', () => {
+    expect(parseErDiagram(ER_DIAGRAM)).toEqual({
+      entities: [
+        { id: 'CUSTOMER', label: 'CUSTOMER', attributes: [] },
+        {
+          id: 'ORDER',
+          label: 'ORDER',
+          attributes: [
+            { type: 'int', name: 'id', keys: ['PK'] },
+            { type: 'string', name: 'status', keys: [] },
+          ],
+        },
+        { id: 'LINE_ITEM', label: 'LINE_ITEM', attributes: [] },
+      ],
+      relationships: [
+        {
+          source: 'CUSTOMER',
+          target: 'ORDER',
+          sourceCardinality: 'exactly-one',
+          targetCardinality: 'zero-or-more',
+          identifying: true,
+          label: 'places',
+        },
+        {
+          source: 'ORDER',
+          target: 'LINE_ITEM',
+          sourceCardinality: 'zero-or-one',
+          targetCardinality: 'one-or-more',
+          identifying: false,
+          label: 'contains',
+        },
+      ],
+      direction: 'TB',
+      diagnostics: [],
+    });
+  });
+
+  it('converts to one entity node per entity with its attributes', async () => {
+    const { nodes, diagnostics } = await convertMermaidToReactFlow(ER_DIAGRAM);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.type])).toEqual([
+      ['CUSTOMER', 'erEntity'],
+      ['ORDER', 'erEntity'],
+      ['LINE_ITEM', 'erEntity'],
+    ]);
+    expect(nodes[1].data.attributes).toEqual([
+      { type: 'int', name: 'id', keys: ['PK'] },
+      { type: 'string', name: 'status', keys: [] },
+    ]);
+  });
+
+  it('draws relationships with crow\'s-foot ends, dashed when non-identifying', async () => {
+    const { edges } = await convertMermaidToReactFlow(ER_DIAGRAM);
+    expect(edges.map(edge => [edge.source, edge.target, edge.label, edge.data])).toEqual([
+      ['CUSTOMER', 'ORDER', 'places', { relation: 'identifying', markers: { start: 'exactly-one', end: 'zero-or-more' } }],
+      ['ORDER', 'LINE_ITEM', 'contains', { relation: 'non-identifying', markers: { start: 'zero-or-one', end: 'one-or-more' } }],
+    ]);
+    expect(edges[0].style?.strokeDasharray).toBeUndefined();
+    expect(edges[1].style?.strokeDasharray).toBe('6,4');
+    expect(edges[0].markerEnd).toBe('relationship-CUSTOMER-ORDER-0-end');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Mermaid erDiagram conversion: entities become table nodes listing their attributes,
+ * relationships become edges with crow's-foot cardinality markers at both ends.
+ * Format: CUSTOMER ||--o{ ORDER : places, ORDER { int id PK }
+ */
+
+import { Node, Edge } from 'reactflow';
+import type { ReactFlowData } from './mermaidToReactFlow';
+import { ConversionDiagnostic, createLineDiagnostic } from './diagnostics';
+import { FlowDirection, normalizeDirection } from './flowchartParser';
+import { getHandlePositions, layoutBoxes } from './diagramLayout';
+
+export type EntityKey = 'PK' | 'FK' | 'UK';
+
+export interface EntityAttribute {
+  type: string;
+  name: string;
+  keys: EntityKey[];
+  comment?: string;
+}
+
+// How many rows of an entity take part in a relationship, drawn where the edge meets it
+export type Cardinality = 'zero-or-one' | 'exactly-one' | 'zero-or-more' | 'one-or-more';
+
+interface EntityInfo {
+  id: string;
+  label: string;
+  attributes: EntityAttribute[];
+}
+
+interface EntityRelationship {
+  source: string;
+  target: string;
+  sourceCardinality: Cardinality;
+  targetCardinality: Cardinality;
+  identifying: boolean;
+  label?: string;
+}
+
+const ENTITY_NAME = '([A-Za-z_][\\w-]*?)';
+const RELATIONSHIP_PATTERN = new RegExp(
+  `^${ENTITY_NAME}\\s*(\\|o|\\|\\||\\}o|\\}\\|)(--|\\.\\.)(o\\||\\|\\||o\\{|\\|\\{)\\s*${ENTITY_NAME}\\s*:\\s*(.*)$`
+);
+
+// The left-hand symbols mirror the right-hand ones: }o ... o{
+const CARDINALITIES: Record<string, Cardinality> = {
+  '|o': 'zero-or-one',
+  'o|': 'zero-or-one',
+  '||': 'exactly-one',
+  '}o': 'zero-or-more',
+  'o{': 'zero-or-more',
+  '}|': 'one-or-more',
+  '|{': 'one-or-more',
+};
+
+const ATTRIBUTE_PATTERN = /^([\w()[\],.*-]+)\s+([\w-]+)(?:\s+((?:PK|FK|UK)(?:\s*,\s*(?:PK|FK|UK))*))?(?:\s+"([^"]*)")?$/;
+
+const RELATIONSHIP_COLOR = '#475569';
+const ATTRIBUTE_ROW_HEIGHT = 22;
+
+export interface ParsedErDiagram {
+  entities: EntityInfo[];
+  relationships: EntityRelationship[];
+  direction: FlowDirection;
+  diagnostics: ConversionDiagnostic[];
+}
+
+export function parseErDiagram(code: string): ParsedErDiagram {
+  const lines = code.split('\n');
+  const entities = new Map<string, EntityInfo>();
+  const relationships: EntityRelationship[] = [];
+  const diagnostics: ConversionDiagnostic[] = [];
+  let direction: FlowDirection = 'TB';
+  let openEntity: EntityInfo | null = null; // Inside ENTITY { ... }
+  let seenHeader = false;
+
+  const ensureEntity = (id: string): EntityInfo => {
+    let info = entities.get(id);
+    if (!info) {
+      info = { id, label: id, attributes: [] };
+      entities.set(id, info);
+    }
+    return info;
+  };
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%%')) continue;
+
+    if (!seenHeader) {
+      seenHeader = true;
+      if (/^erDiagram\b/.test(line)) continue;
+    }
+
+    if (openEntity) {
+      if (line === '}') {
+        openEntity = null;
+        continue;
+      }
+      const attributeMatch = line.match(ATTRIBUTE_PATTERN);
+      if (attributeMatch) {
+        const [, type, name, keys, comment] = attributeMatch;
+        openEntity.attributes.push({
+          type,
+          name,
+          keys: keys ? keys.split(',').map(key => key.trim() as EntityKey) : [],
+          comment
+        });
+      } else {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, 'unrecognised attribute, ignored'));
+      }
+      continue;
+    }
+
+    const directionMatch = line.match(/^direction\s+(\w+)$/);
+    if (directionMatch) {
+      const normalized = normalizeDirection(directionMatch[1]);
+      if (normalized) {
+        direction = normalized;
+      } else {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, `unknown direction \`${directionMatch[1]}\`, using TB`));
+      }
+      continue;
+    }
+
+    const relationshipMatch = line.match(RELATIONSHIP_PATTERN);
+    if (relationshipMatch) {
+      const [, source, sourceSymbol, stroke, targetSymbol, target, label] = relationshipMatch;
+      ensureEntity(source);
+      ensureEntity(target);
+      relationships.push({
+        source,
+        target,
+        sourceCardinality: CARDINALITIES[sourceSymbol],
+        targetCardinality: CARDINALITIES[targetSymbol],
+        identifying: stroke === '--',
+        label: label.trim().replace(/^"(.*)"$/, '$1') || undefined
+      });
+      continue;
+    }
+
+    const entityMatch = line.match(/^([A-Za-z_][\w-]*)(?:\s*\["([^"]*)"\])?\s*(\{)?\s*(\})?$/);
+    if (entityMatch) {
+      const [, id, label, opensBody, closesBody] = entityMatch;
+      const info = ensureEntity(id);
+      if (label !== undefined) info.label = label;
+      if (opensBody && !closesBody) {
+        openEntity = info;
+      }
+      continue;
+    }
+
+    if (line === '}') {
+      diagnostics.push(createLineDiagnostic('warning', lines, index, 'unexpected `}`, ignored'));
+      continue;
+    }
+
+    diagnostics.push(createLineDiagnostic('warning', lines, index, 'unrecognised ER diagram statement, ignored'));
+  }
+
+  if (openEntity) {
+    diagnostics.push(createLineDiagnostic(
+      'error', lines, lines.length - 1, `entity \`${openEntity.id}\` is missing its closing \`}\``
+    ));
+  }
+
+  return { entities: [...entities.values()], relationships, direction, diagnostics };
+}
+
+// Tables grow with their widest row and number of attributes
+function calculateEntitySize(info: EntityInfo): { width: number; height: number } {
+  const rowLength = (attribute: EntityAttribute) =>
+    attribute.type.length + attribute.name.length + attribute.keys.join(',').length + 4;
+  const longest = Math.max(info.label.length, ...info.attributes.map(rowLength));
+  return {
+    width: Math.max(140, Math.min(400, longest * 7 + 32)),
+    height: 36 + info.attributes.length * ATTRIBUTE_ROW_HEIGHT + (info.attributes.length > 0 ? 8 : 0)
+  };
+}
+
+export function layoutErDiagram(parsed: ParsedErDiagram): ReactFlowData {
+  const { entities, relationships, direction } = parsed;
+  const { sourcePosition, targetPosition } = getHandlePositions(direction);
+
+  const sizes = new Map(entities.map(info => [info.id, calculateEntitySize(info)]));
+  const positions = layoutBoxes(
+    entities.map(info => ({ id: info.id, ...sizes.get(info.id)! })),
+    relationships,
+    { direction, ranksep: 100 }
+  );
+
+  const nodes: Node[] = entities.map(info => {
+    const size = sizes.get(info.id)!;
+    return {
+      id: info.id,
+      type: 'erEntity',
+      position: positions.get(info.id) ?? { x: 0, y: 0 },
+      data: {
+        label: info.label,
+        attributes: info.attributes
+      },
+      style: { width: size.width, height: size.height },
+      sourcePosition,
+      targetPosition,
+    };
+  });
+
+  // Crow's-foot markers are defined by EdgeMarkers, one per edge end
+  const edges: Edge[] = relationships.map((relationship, index) => {
+    const id = `relationship-${relationship.source}-${relationship.target}-${index}`;
+    return {
+      id,
+      source: relationship.source,
+      target: relationship.target,
+      type: 'relation',
+      label: relationship.label,
+      style: {
+        stroke: RELATIONSHIP_COLOR,
+        strokeWidth: 1.5,
+        strokeDasharray: relationship.identifying ? undefined : '6,4',
+      },
+      markerStart: `${id}-start`,
+      markerEnd: `${id}-end`,
+      data: {
+        relation: relationship.identifying ? 'identifying' : 'non-identifying',
+        markers: { start: relationship.sourceCardinality, end: relationship.targetCardinality }
+      },
+    };
+  });
+
+  return { nodes, edges };
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { parseFlowchart, FlowchartStatement } from './flowchartParser';
+
+// Statements without their source spans, which the assertions below don't care about
+function statementsOf(source: string): unknown[] {
+  const { document } = parseFlowchart(source);
+  return JSON.parse(JSON.stringify(document.statements, (key, value) => (key === 'span' ? undefined : value)));
+}
+
+function edgeLinks(source: string) {
+  const statement = parseFlowchart(source).document.statements[0] as Extract<FlowchartStatement, { type: 'edge' }>;
+  return statement.links.map(({ operator, stroke, start, end, length, label }) => ({ operator, stroke, start, end, length, label }));
+}
+
+describe('parseFlowchart', () => {
+  it('reads the declaration direction', () => {
+    expect(parseFlowchart('flowchart LR\n  A').document.direction).toBe('LR');
+    expect(parseFlowchart('graph TD\n  A').document.direction).toBe('TB');
+    expect(parseFlowchart('graph\n  A').document.direction).toBe('TB');
+  });
+
+  it('reads node shapes and labels', () => {
+    expect(statementsOf('flowchart TD\n  A[Box]\n  B(Round)\n  C([Stadium])\n  E((Circle))\n  F{Choice}')).toEqual([
+      { type: 'node', nodes: [{ id: 'A', shape: 'rect', label: 'Box' }] },
+      { type: 'node', nodes: [{ id: 'B', shape: 'round', label: 'Round' }] },
+      { type: 'node', nodes: [{ id: 'C', shape: 'stadium', label: 'Stadium' }] },
+      { type: 'node', nodes: [{ id: 'E', shape: 'circle', label: 'Circle' }] },
+      { type: 'node', nodes: [{ id: 'F', shape: 'diamond', label: 'Choice' }] },
+    ]);
+  });
+
+  it('reads the rest of the shape vocabulary', () => {
+    const source = 'flowchart TD\n  A[[Sub]]\n  B[(Base)]\n  C(((Double)))\n  D{{Hex}}\n  E>Flag]\n  F[/Lean/]\n  G[\\Back\\]\n  H[/Trap\\]\n  I[\\Inv/]';
+    expect(statementsOf(source).map(statement => (statement as { nodes: unknown[] }).nodes[0])).toEqual([
+      { id: 'A', shape: 'subroutine', label: 'Sub' },
+      { id: 'B', shape: 'cylinder', label: 'Base' },
+      { id: 'C', shape: 'double-circle', label: 'Double' },
+      { id: 'D', shape: 'hexagon', label: 'Hex' },
+      { id: 'E', shape: 'asymmetric', label: 'Flag' },
+      { id: 'F', shape: 'parallelogram', label: 'Lean' },
+      { id: 'G', shape: 'parallelogram-alt', label: 'Back' },
+      { id: 'H', shape: 'trapezoid', label: 'Trap' },
+      { id: 'I', shape: 'trapezoid-alt', label: 'Inv' },
+    ]);
+  });
+
+  it('decodes quoted labels', () => {
+    expect(statementsOf('flowchart TD\n  A["Say #quot;hi#quot; [now]"]')).toEqual([
+      { type: 'node', nodes: [{ id: 'A', shape: 'rect', label: 'Say "hi" [now]' }] },
+    ]);
+  });
+
+  it('reads link strokes and text', () => {
+    expect(statementsOf('flowchart TD\n  A -->|yes| C -.-> D ==> E --- F')).toEqual([
+      {
+        type: 'edge',
+        groups: [[{ id: 'A' }], [{ id: 'C' }], [{ id: 'D' }], [{ id: 'E' }], [{ id: 'F' }]],
+        links: [
+          { operator: '-->', stroke: 'normal', start: 'none', end: 'arrow', length: 1, label: 'yes' },
+          { operator: '-.->', stroke: 'dotted', start: 'none', end: 'arrow', length: 1 },
+          { operator: '==>', stroke: 'thick', start: 'none', end: 'arrow', length: 1 },
+          { operator: '---', stroke: 'normal', start: 'none', end: 'none', length: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it('reads pipes inside a quoted link label as part of the label', () => {
+    const { document, diagnostics } = parseFlowchart('flowchart TD\n  A -->|"quoted|pipe"| B\n  subgraph S\n    C\n  end');
+    expect(diagnostics).toEqual([]);
+    expect(edgeLinks('flowchart TD\n  A -->|"quoted|pipe"| B')[0].label).toBe('quoted|pipe');
+    expect(document.statements.map(statement => statement.type)).toEqual(['edge', 'subgraph']);
+  });
+
+  it('reads invisible links, two-headed links, circle and cross ends and longer links', () => {
+    expect(edgeLinks('flowchart TD\n  A ~~~ B <---> C o--o D x----x E -...-> F ====> G')).toEqual([
+      { operator: '~~~', stroke: 'invisible', start: 'none', end: 'none', length: 1, label: undefined },
+      { operator: '<--->', stroke: 'normal', start: 'arrow', end: 'arrow', length: 2, label: undefined },
+      { operator: 'o--o', stroke: 'normal', start: 'circle', end: 'circle', length: 1, label: undefined },
+      { operator: 'x----x', stroke: 'normal', start: 'cross', end: 'cross', length: 3, label: undefined },
+      { operator: '-...->', stroke: 'dotted', start: 'none', end: 'arrow', length: 3, label: undefined },
+      { operator: '====>', stroke: 'thick', start: 'none', end: 'arrow', length: 3, label: undefined },
+    ]);
+  });
+
+  it('reads text written inside the link', () => {
+    expect(edgeLinks('flowchart TD\n  A -- no --> B -. maybe .-> C == yes ==> D')).toEqual([
+      { operator: '-->', stroke: 'normal', start: 'none', end: 'arrow', length: 1, label: 'no' },
+      { operator: '-.->', stroke: 'dotted', start: 'none', end: 'arrow', length: 1, label: 'maybe' },
+      { operator: '==>', stroke: 'thick', start: 'none', end: 'arrow', length: 1, label: 'yes' },
+    ]);
+  });
+
+  it('reads & groups in chains', () => {
+    expect(statementsOf('flowchart TD\n  A & B --> C & D')).toEqual([
+      {
+        type: 'edge',
+        groups: [[{ id: 'A' }, { id: 'B' }], [{ id: 'C' }, { id: 'D' }]],
+        links: [{ operator: '-->', stroke: 'normal', start: 'none', end: 'arrow', length: 1 }],
+      },
+    ]);
+  });
+
+  it('reads subgraphs with their own direction', () => {
+    expect(statementsOf('flowchart TD\n  subgraph one [First]\n    direction LR\n    A --> B\n  end')).toEqual([
+      {
+        type: 'subgraph',
+        id: 'one',
+        title: 'First',
+        statements: [
+          { type: 'direction', direction: 'LR' },
+          { type: 'edge', groups: [[{ id: 'A' }], [{ id: 'B' }]], links: [{ operator: '-->', stroke: 'normal', start: 'none', end: 'arrow', length: 1 }] },
+        ],
+      },
+    ]);
+  });
+
+  it('nests subgraphs inside subgraphs', () => {
+    expect(statementsOf('flowchart TD\n  subgraph outer\n    subgraph inner\n      A\n    end\n    B\n  end')).toEqual([
+      {
+        type: 'subgraph',
+        id: 'outer',
+        title: 'outer',
+        statements: [
+          { type: 'subgraph', id: 'inner', title: 'inner', statements: [{ type: 'node', nodes: [{ id: 'A' }] }] },
+          { type: 'node', nodes: [{ id: 'B' }] },
+        ],
+      },
+    ]);
+  });
+
+  it('skips comments and separates statements on semicolons', () => {
+    expect(statementsOf('flowchart TD\n  %% a comment\n  A; B\n  click A callback')).toEqual([
+      { type: 'node', nodes: [{ id: 'A' }] },
+      { type: 'node', nodes: [{ id: 'B' }] },
+    ]);
+  });
+
+  it('reads classDef, class, style and linkStyle statements and ::: classes', () => {
+    const source = 'flowchart TD\n  A:::hot\n  classDef hot fill:#f00,stroke:#900\n  class A,B hot\n  style A color:#fff\n  linkStyle 0,2 stroke:#00f\n  linkStyle default stroke:#111';
+    expect(statementsOf(source)).toEqual([
+      { type: 'node', nodes: [{ id: 'A', classNames: ['hot'] }] },
+      { type: 'classDef', classNames: ['hot'], style: { fill: '#f00', stroke: '#900' } },
+      { type: 'class', ids: ['A', 'B'], className: 'hot' },
+      { type: 'style', id: 'A', style: { color: '#fff' } },
+      { type: 'linkStyle', indices: [0, 2], style: { stroke: '#00f' } },
+      { type: 'linkStyle', indices: 'default', style: { stroke: '#111' } },
+    ]);
+  });
+
+  it('records where each statement is in the source', () => {
+    const [statement] = parseFlowchart('flowchart TD\n  A --> B').document.statements;
+    expect(statement.span.start).toEqual({ offset: 15, line: 2, column: 3 });
+    expect(statement.span.end).toEqual({ offset: 22, line: 2, column: 10 });
+  });
+
+  it('reports where a statement could not be read and keeps the rest', () => {
+    const { document, diagnostics } = parseFlowchart('flowchart TD\n  A[unclosed --> B\n  C --> D');
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', line: 2, message: 'unterminated node label, rest of statement ignored' }),
+    ]);
+    expect(document.statements.at(-1)).toMatchObject({ type: 'edge', groups: [[{ id: 'C' }], [{ id: 'D' }]] });
+  });
+
+  it('reports unbalanced subgraphs', () => {
+    expect(parseFlowchart('flowchart TD\n  A --> B\n  end').diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', line: 3, message: '`end` without a matching `subgraph`, ignored' }),
+    ]);
+    expect(parseFlowchart('flowchart TD\n  subgraph S\n  A').diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', line: 2, message: 'subgraph `S` is missing `end`' }),
+    ]);
+  });
+});
@@ -0,0 +1,804 @@
+/**
+ * Tokenizer and parser for Mermaid flowchart syntax.
+ * Produces a typed AST where every statement carries its source span.
+ */
+
+import { ConversionDiagnostic, createDiagnostic } from './diagnostics';
+import { MermaidStyle, parseStyleDeclarations } from './mermaidStyles';
+
+export type FlowDirection = 'TB' | 'BT' | 'LR' | 'RL';
+
+export interface SourceLocation {
+  offset: number;
+  line: number;   // 1-based
+  column: number; // 1-based
+}
+
+export interface SourceSpan {
+  start: SourceLocation;
+  end: SourceLocation;
+}
+
+export type FlowchartNodeShape =
+  | 'rect'
+  | 'round'
+  | 'stadium'
+  | 'subroutine'
+  | 'cylinder'
+  | 'circle'
+  | 'double-circle'
+  | 'asymmetric'
+  | 'diamond'
+  | 'hexagon'
+  | 'parallelogram'
+  | 'parallelogram-alt'
+  | 'trapezoid'
+  | 'trapezoid-alt';
+
+export interface FlowchartNodeRef {
+  id: string;
+  // Only set when this reference carries a shape definition, e.g. A[Label]
+  shape?: FlowchartNodeShape;
+  label?: string;
+  classNames?: string[]; // From A:::className
+  span: SourceSpan;
+}
+
+export type FlowchartLinkStroke = 'normal' | 'thick' | 'dotted' | 'invisible';
+
+export type FlowchartLinkEnd = 'none' | 'arrow' | 'circle' | 'cross';
+
+export interface FlowchartLink {
+  operator: string; // Operator without any inline text, e.g. "-->", "<-.->" or "o--o"
+  stroke: FlowchartLinkStroke;
+  start: FlowchartLinkEnd;
+  end: FlowchartLinkEnd;
+  length: number; // 1 for the shortest form; each extra -, . or = adds one
+  label?: string;
+  span: SourceSpan;
+}
+
+export interface FlowchartNodeStatement {
+  type: 'node';
+  nodes: FlowchartNodeRef[];
+  span: SourceSpan;
+}
+
+// A --> B & C -.-> D is one statement: groups [[A], [B, C], [D]] joined by two links
+export interface FlowchartEdgeStatement {
+  type: 'edge';
+  groups: FlowchartNodeRef[][];
+  links: FlowchartLink[];
+  span: SourceSpan;
+}
+
+export interface FlowchartSubgraphStatement {
+  type: 'subgraph';
+  id: string;
+  title: string;
+  statements: FlowchartStatement[];
+  span: SourceSpan;
+}
+
+export interface FlowchartDirectionStatement {
+  type: 'direction';
+  direction: FlowDirection;
+  span: SourceSpan;
+}
+
+// classDef critical,urgent fill:#f96
+export interface FlowchartClassDefStatement {
+  type: 'classDef';
+  classNames: string[];
+  style: MermaidStyle;
+  span: SourceSpan;
+}
+
+// class A,B critical
+export interface FlowchartClassStatement {
+  type: 'class';
+  ids: string[];
+  className: string;
+  span: SourceSpan;
+}
+
+// style A stroke:#f00
+export interface FlowchartStyleStatement {
+  type: 'style';
+  id: string;
+  style: MermaidStyle;
+  span: SourceSpan;
+}
+
+// linkStyle 3 stroke-width:4px, or linkStyle default ...
+export interface FlowchartLinkStyleStatement {
+  type: 'linkStyle';
+  indices: number[] | 'default';
+  style: MermaidStyle;
+  span: SourceSpan;
+}
+
+export type FlowchartStatement =
+  | FlowchartNodeStatement
+  | FlowchartEdgeStatement
+  | FlowchartSubgraphStatement
+  | FlowchartDirectionStatement
+  | FlowchartClassDefStatement
+  | FlowchartClassStatement
+  | FlowchartStyleStatement
+  | FlowchartLinkStyleStatement;
+
+export interface FlowchartDocument {
+  type: 'flowchart';
+  direction: FlowDirection;
+  statements: FlowchartStatement[];
+  span: SourceSpan;
+}
+
+export interface FlowchartParseResult {
+  document: FlowchartDocument;
+  diagnostics: ConversionDiagnostic[];
+}
+
+type TokenKind =
+  | 'id'
+  | 'shape'
+  | 'className'
+  | 'link'
+  | 'edgeLabel'
+  | 'amp'
+  | 'string'
+  | 'separator'
+  | 'unknown'
+  | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  text: string; // Raw source text
+  value?: string; // Decoded label/string contents
+  shape?: FlowchartNodeShape;
+  operator?: string; // Link operator, when it differs from the raw text (A -- text --> B)
+  error?: string; // Why an 'unknown' token could not be lexed
+  warning?: string; // Problems with an otherwise usable token
+  span: SourceSpan;
+}
+
+// Where several delimiters match, the longest opener that closes wins, e.g. "[(" over "["
+const NODE_SHAPE_DELIMITERS: Array<{ open: string; close: string; shape: FlowchartNodeShape }> = [
+  { open: '(((', close: ')))', shape: 'double-circle' },
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '([', close: '])', shape: 'stadium' },
+  { open: '[[', close: ']]', shape: 'subroutine' },
+  { open: '[(', close: ')]', shape: 'cylinder' },
+  { open: '{{', close: '}}', shape: 'hexagon' },
+  { open: '[/', close: '/]', shape: 'parallelogram' },
+  { open: '[/', close: '\\]', shape: 'trapezoid' },
+  { open: '[\\', close: '\\]', shape: 'parallelogram-alt' },
+  { open: '[\\', close: '/]', shape: 'trapezoid-alt' },
+  { open: '[', close: ']', shape: 'rect' },
+  { open: '(', close: ')', shape: 'round' },
+  { open: '{', close: '}', shape: 'diamond' },
+  { open: '>', close: ']', shape: 'asymmetric' },
+];
+
+// Shape names accepted by the A@{ shape: ... } syntax, including Mermaid's aliases
+const SHAPE_NAMES: Record<string, FlowchartNodeShape> = {
+  'rect': 'rect', 'rectangle': 'rect', 'proc': 'rect', 'process': 'rect',
+  'rounded': 'round', 'event': 'round',
+  'stadium': 'stadium', 'pill': 'stadium', 'terminal': 'stadium',
+  'subroutine': 'subroutine', 'fr-rect': 'subroutine', 'subproc': 'subroutine',
+  'subprocess': 'subroutine', 'framed-rectangle': 'subroutine',
+  'cyl': 'cylinder', 'cylinder': 'cylinder', 'database': 'cylinder', 'db': 'cylinder',
+  'circle': 'circle', 'circ': 'circle',
+  'dbl-circ': 'double-circle', 'double-circle': 'double-circle',
+  'odd': 'asymmetric', 'asymmetric': 'asymmetric',
+  'diam': 'diamond', 'diamond': 'diamond', 'decision': 'diamond', 'question': 'diamond',
+  'hex': 'hexagon', 'hexagon': 'hexagon', 'prepare': 'hexagon',
+  'lean-r': 'parallelogram', 'lean-right': 'parallelogram', 'in-out': 'parallelogram',
+  'lean-l': 'parallelogram-alt', 'lean-left': 'parallelogram-alt', 'out-in': 'parallelogram-alt',
+  'trap-b': 'trapezoid', 'trapezoid': 'trapezoid', 'priority': 'trapezoid', 'trapezoid-bottom': 'trapezoid',
+  'trap-t': 'trapezoid-alt', 'inv-trapezoid': 'trapezoid-alt', 'manual': 'trapezoid-alt',
+  'trapezoid-top': 'trapezoid-alt',
+};
+
+// -->, ---, -.->, ==>, ~~~, their longer forms and the <, o and x end variants
+const LINK_PATTERN = /^(?:[<ox]?-{2,}[->ox]|[<ox]?-\.+-[>ox]?|[<ox]?={2,}[=>ox]|~{3,})/;
+
+// Links with inline text: A -- text --> B, A -. text .-> B, A == text ==> B
+const LINK_TEXT_START_PATTERN = /^([<ox]?)(--|==|-\.)/;
+const LINK_TEXT_END_PATTERNS: Record<string, RegExp> = {
+  '--': /-{2,}[->ox]/,
+  '==': /={2,}[=>ox]/,
+  '-.': /-?\.+-[>ox]?/,
+};
+
+const LINK_END_MARKERS: Record<string, FlowchartLinkEnd> = { '<': 'arrow', '>': 'arrow', 'o': 'circle', 'x': 'cross' };
+
+// Statements we recognise but do not model (yet); the rest of the line is skipped
+const SKIPPED_KEYWORDS = new Set(['click']);
+
+// Statements whose arguments are free-form style text rather than tokens
+const STYLE_KEYWORDS = new Set(['classDef', 'class', 'style', 'linkStyle']);
+
+// Mermaid's entity escapes, e.g. #quot; or #35;
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { quot: '"', amp: '&', lt: '<', gt: '>', nbsp: ' ' };
+  return text.replace(/#(\w+);/g, (match, entity: string) => {
+    if (/^\d+$/.test(entity)) return String.fromCharCode(parseInt(entity, 10));
+    return named[entity] ?? match;
+  });
+}
+
+export function normalizeDirection(direction: string | undefined): FlowDirection | undefined {
+  // Mermaid accepts TD as an alias for TB; dagre only knows TB
+  switch (direction?.toUpperCase()) {
+    case 'TB':
+    case 'TD':
+      return 'TB';
+    case 'BT':
+      return 'BT';
+    case 'LR':
+      return 'LR';
+    case 'RL':
+      return 'RL';
+    default:
+      return undefined;
+  }
+}
+
+function isIdChar(char: string | undefined): boolean {
+  return char !== undefined && /[A-Za-z0-9_]/.test(char);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const location = (): SourceLocation => ({ offset, line, column });
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count && offset < source.length; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  const push = (kind: TokenKind, start: SourceLocation, extra: Partial<Token> = {}) => {
+    tokens.push({ kind, text: source.slice(start.offset, offset), span: { start, end: location() }, ...extra });
+  };
+
+  // Scans a label starting at `from` up to `close`; quoted labels may contain the closer and newlines.
+  // Returns the label and the offset just past the closer, without consuming anything.
+  const scanLabel = (from: number, open: string, close: string): { label: string; end: number } | null => {
+    let cursor = from;
+    while (source[cursor] === ' ' || source[cursor] === '\t') cursor++;
+
+    if (source[cursor] === '"') {
+      const endQuote = source.indexOf('"', cursor + 1);
+      if (endQuote === -1) return null;
+      let after = endQuote + 1;
+      while (source[after] === ' ' || source[after] === '\t') after++;
+      if (!source.startsWith(close, after)) return null;
+      return { label: source.slice(cursor + 1, endQuote), end: after + close.length };
+    }
+
+    // Unquoted: single-character brackets may nest, e.g. A[foo [x]]
+    let depth = 0;
+    for (let i = from; i < source.length; i++) {
+      const char = source[i];
+      if (char === '\n') return null;
+      if (open.length === 1 && close.length === 1 && char === open) {
+        depth++;
+      } else if (source.startsWith(close, i)) {
+        if (depth === 0) {
+          return { label: source.slice(from, i), end: i + close.length };
+        }
+        if (close.length === 1) depth--;
+      }
+    }
+    return null;
+  };
+
+  // Picks the shape for the delimiters at the current offset
+  const scanShape = (): { label: string; end: number; shape: FlowchartNodeShape } | null => {
+    let best: { label: string; end: number; shape: FlowchartNodeShape; openLength: number } | null = null;
+    for (const delimiter of NODE_SHAPE_DELIMITERS) {
+      if (!source.startsWith(delimiter.open, offset)) continue;
+      const result = scanLabel(offset + delimiter.open.length, delimiter.open, delimiter.close);
+      if (!result) continue;
+      const openLength = delimiter.open.length;
+      if (!best || openLength > best.openLength || (openLength === best.openLength && result.end < best.end)) {
+        best = { ...result, shape: delimiter.shape, openLength };
+      }
+    }
+    return best;
+  };
+
+  // A@{ shape: cyl, label: "Orders DB" }
+  const scanShapeData = (): { end: number; shape: FlowchartNodeShape; label?: string; warning?: string } | null => {
+    let inQuote = false;
+    let close = -1;
+    for (let i = offset + 2; i < source.length; i++) {
+      if (source[i] === '"') inQuote = !inQuote;
+      if (source[i] === '}' && !inQuote) {
+        close = i;
+        break;
+      }
+    }
+    if (close === -1) return null;
+
+    const fields = new Map<string, string>();
+    const body = source.slice(offset + 2, close);
+    for (const match of body.matchAll(/(\w+)\s*:\s*(?:"([^"]*)"|([^,\n]+))/g)) {
+      fields.set(match[1], (match[2] ?? match[3]).trim());
+    }
+
+    const shapeName = fields.get('shape')?.toLowerCase();
+    const shape = shapeName ? SHAPE_NAMES[shapeName] : 'rect';
+    return {
+      end: close + 1,
+      shape: shape ?? 'rect',
+      label: fields.get('label'),
+      warning: shape ? undefined : `unsupported shape \`${shapeName}\`, drawn as rect`
+    };
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const start = location();
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      advance(1);
+      continue;
+    }
+
+    // Comments and %%{init}%% directives run to the end of the line
+    if (source.startsWith('%%', offset)) {
+      const newline = source.indexOf('\n', offset);
+      advance((newline === -1 ? source.length : newline) - offset);
+      continue;
+    }
+
+    if (char === '\n' || char === ';') {
+      advance(1);
+      push('separator', start);
+      continue;
+    }
+
+    if (char === '&') {
+      advance(1);
+      push('amp', start);
+      continue;
+    }
+
+    if (char === '|') {
+      // A quoted label can hold pipes of its own, so the closing pipe is the first one after the quotes
+      const quoted = source.slice(offset + 1).match(/^[ \t]*"[^"\n]*"/);
+      const end = source.indexOf('|', offset + 1 + (quoted ? quoted[0].length : 0));
+      const newline = source.indexOf('\n', offset + 1);
+      if (end === -1 || (newline !== -1 && newline < end)) {
+        advance(1);
+        push('unknown', start, { error: 'unterminated edge label' });
+        continue;
+      }
+      let value = source.slice(offset + 1, end).trim();
+      if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+        value = value.slice(1, -1);
+      }
+      advance(end + 1 - offset);
+      push('edgeLabel', start, { value: decodeEntities(value) });
+      continue;
+    }
+
+    if (char === '"') {
+      const end = source.indexOf('"', offset + 1);
+      if (end === -1) {
+        advance(1);
+        push('unknown', start, { error: 'unterminated string' });
+        continue;
+      }
+      const value = source.slice(offset + 1, end);
+      advance(end + 1 - offset);
+      push('string', start, { value: decodeEntities(value) });
+      continue;
+    }
+
+    // o and x only start a link (o--o) after a node and whitespace; elsewhere they begin an id
+    const previous = tokens[tokens.length - 1];
+    const canStartLink = (char !== 'o' && char !== 'x') || (
+      (source[offset - 1] === ' ' || source[offset - 1] === '\t') &&
+      ['id', 'shape', 'className'].includes(previous?.kind)
+    );
+
+    const linkMatch = canStartLink ? source.slice(offset, offset + 64).match(LINK_PATTERN) : null;
+    if (linkMatch) {
+      advance(linkMatch[0].length);
+      push('link', start);
+      continue;
+    }
+
+    const textLinkMatch = canStartLink ? source.slice(offset, offset + 3).match(LINK_TEXT_START_PATTERN) : null;
+    if (textLinkMatch) {
+      const [opening, marker, kind] = textLinkMatch;
+      const newline = source.indexOf('\n', offset);
+      const rest = source.slice(offset + opening.length, newline === -1 ? source.length : newline);
+      const closing = rest.match(LINK_TEXT_END_PATTERNS[kind]);
+      if (!closing || closing.index === undefined) {
+        advance(opening.length);
+        push('unknown', start, { error: 'link text is missing its closing arrow' });
+        continue;
+      }
+      let value = rest.slice(0, closing.index).trim();
+      if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+        value = value.slice(1, -1);
+      }
+      // -. text .-> closes with ".->"; the operator is written as "-.->"
+      const operator = marker + (kind === '-.' && !closing[0].startsWith('-') ? '-' : '') + closing[0];
+      advance(opening.length + closing.index + closing[0].length);
+      push('link', start, { value: decodeEntities(value), operator });
+      continue;
+    }
+
+    const classNameMatch = source.slice(offset, offset + 128).match(/^:::([\w-]+)/);
+    if (classNameMatch) {
+      advance(classNameMatch[0].length);
+      push('className', start, { value: classNameMatch[1] });
+      continue;
+    }
+
+    if (source.startsWith('@{', offset)) {
+      const shapeData = scanShapeData();
+      if (!shapeData) {
+        advance(2);
+        push('unknown', start, { error: 'unterminated shape data' });
+        continue;
+      }
+      advance(shapeData.end - offset);
+      push('shape', start, {
+        value: shapeData.label !== undefined ? decodeEntities(shapeData.label) : undefined,
+        shape: shapeData.shape,
+        warning: shapeData.warning
+      });
+      continue;
+    }
+
+    if (NODE_SHAPE_DELIMITERS.some(d => source.startsWith(d.open, offset))) {
+      const shape = scanShape();
+      if (!shape) {
+        advance(1);
+        push('unknown', start, { error: 'unterminated node label' });
+        continue;
+      }
+      advance(shape.end - offset);
+      push('shape', start, { value: decodeEntities(shape.label), shape: shape.shape });
+      continue;
+    }
+
+    if (isIdChar(char)) {
+      let end = offset;
+      // Dashes are allowed inside ids (node-1) but not where a link starts (A-->B)
+      while (end < source.length && (isIdChar(source[end]) || (source[end] === '-' && isIdChar(source[end + 1])))) {
+        end++;
+      }
+      advance(end - offset);
+      push('id', start);
+      continue;
+    }
+
+    advance(1);
+    push('unknown', start);
+  }
+
+  const end = location();
+  tokens.push({ kind: 'eof', text: '', span: { start: end, end } });
+  return tokens;
+}
+
+function spanBetween(first: Token | { span: SourceSpan }, last: Token | { span: SourceSpan }): SourceSpan {
+  return { start: first.span.start, end: last.span.end };
+}
+
+function linkFromOperator(operator: string, span: SourceSpan, label?: string): FlowchartLink {
+  const [, startMarker, body, endMarker] = operator.match(/^([<ox]?)(.*?)([>ox]?)$/) ?? ['', '', operator, ''];
+
+  let stroke: FlowchartLinkStroke = 'normal';
+  let length: number;
+  if (body.startsWith('~')) {
+    stroke = 'invisible';
+    length = body.length - 2;
+  } else if (body.includes('.')) {
+    stroke = 'dotted';
+    length = body.length - 2;
+  } else {
+    stroke = body.startsWith('=') ? 'thick' : 'normal';
+    // An open link ends in its own stroke character: --- is as short as -->
+    length = body.length - (endMarker ? 1 : 2);
+  }
+
+  return {
+    operator,
+    stroke,
+    start: LINK_END_MARKERS[startMarker] ?? 'none',
+    end: LINK_END_MARKERS[endMarker] ?? 'none',
+    length: Math.max(1, length),
+    label,
+    span
+  };
+}
+
+export function parseFlowchart(source: string): FlowchartParseResult {
+  const tokens = tokenize(source);
+  const diagnostics: ConversionDiagnostic[] = [];
+  let pos = 0;
+  let anonymousSubgraphCount = 0;
+
+  const peek = (ahead: number = 0): Token => tokens[Math.min(pos + ahead, tokens.length - 1)];
+  const next = (): Token => tokens[Math.min(pos++, tokens.length - 1)];
+  const atStatementEnd = () => peek().kind === 'separator' || peek().kind === 'eof';
+
+  const skipSeparators = () => {
+    while (peek().kind === 'separator') pos++;
+  };
+
+  // Error recovery: drop everything up to the next statement separator
+  const skipToStatementEnd = (): Token | null => {
+    let last: Token | null = null;
+    while (!atStatementEnd()) last = next();
+    return last;
+  };
+
+  const skipStatement = (start: Token, severity: 'error' | 'warning', message: string) => {
+    const last = skipToStatementEnd();
+    diagnostics.push(createDiagnostic(severity, source, spanBetween(start, last ?? start), message));
+  };
+
+  const describeUnexpected = (token: Token) => token.error ?? `unexpected \`${token.text}\``;
+
+  const parseNodeRef = (): FlowchartNodeRef | null => {
+    const idToken = peek();
+    if (idToken.kind !== 'id') return null;
+    pos++;
+
+    const ref: FlowchartNodeRef = { id: idToken.text, span: idToken.span };
+
+    const shapeToken = peek();
+    if (shapeToken.kind === 'shape') {
+      pos++;
+      if (shapeToken.warning) {
+        diagnostics.push(createDiagnostic('warning', source, shapeToken.span, shapeToken.warning));
+      }
+      ref.shape = shapeToken.shape;
+      ref.label = shapeToken.value;
+      ref.span = spanBetween(idToken, shapeToken);
+    }
+
+    if (peek().kind === 'className') {
+      const classToken = next();
+      ref.classNames = [classToken.value ?? ''];
+      ref.span = spanBetween(idToken, classToken);
+    }
+
+    return ref;
+  };
+
+  // classDef/class/style/linkStyle take the raw rest of the statement as their arguments
+  const parseStyleStatement = (keyword: Token): FlowchartStatement | null => {
+    const last = skipToStatementEnd();
+    const span = spanBetween(keyword, last ?? keyword);
+    const args = last ? source.slice(keyword.span.end.offset, last.span.end.offset).trim() : '';
+    const fail = (message: string) => {
+      diagnostics.push(createDiagnostic('error', source, span, message));
+      return null;
+    };
+
+    if (keyword.text === 'class') {
+      const match = args.match(/^(.+?)\s+([\w-]+)$/);
+      if (!match) return fail('expected `class <ids> <className>`, ignored');
+      const ids = match[1].split(',').map(id => id.trim()).filter(Boolean);
+      return { type: 'class', ids, className: match[2], span };
+    }
+
+    const match = args.match(/^(\S+)\s+([\s\S]+)$/);
+    if (!match) return fail(`expected \`${keyword.text} <target> <styles>\`, ignored`);
+    const [, target, declarations] = match;
+
+    switch (keyword.text) {
+      case 'classDef':
+        return {
+          type: 'classDef',
+          classNames: target.split(',').map(name => name.trim()).filter(Boolean),
+          style: parseStyleDeclarations(declarations),
+          span
+        };
+      case 'style':
+        return { type: 'style', id: target, style: parseStyleDeclarations(declarations), span };
+      default: {
+        // linkStyle may carry an interpolation mode we have no equivalent for
+        const styleText = declarations.replace(/^interpolate\s+\w+\s*/, '');
+        if (target === 'default') {
+          return { type: 'linkStyle', indices: 'default', style: parseStyleDeclarations(styleText), span };
+        }
+        const indices = target.split(',').map(index => parseInt(index, 10));
+        if (indices.some(index => isNaN(index))) return fail('linkStyle expects link indices or `default`, ignored');
+        return { type: 'linkStyle', indices, style: parseStyleDeclarations(styleText), span };
+      }
+    }
+  };
+
+  const parseNodeGroup = (): FlowchartNodeRef[] | null => {
+    const first = parseNodeRef();
+    if (!first) return null;
+
+    const group = [first];
+    while (peek().kind === 'amp') {
+      pos++;
+      const node = parseNodeRef();
+      if (!node) return null;
+      group.push(node);
+    }
+    return group;
+  };
+
+  const parseNodeOrEdgeStatement = (): FlowchartNodeStatement | FlowchartEdgeStatement | null => {
+    const startToken = peek();
+    const firstGroup = parseNodeGroup();
+    if (!firstGroup) return null;
+
+    const groups = [firstGroup];
+    const links: FlowchartLink[] = [];
+    let lastToken = tokens[pos - 1];
+
+    while (peek().kind === 'link') {
+      const linkToken = next();
+      let label = linkToken.value;
+      if (peek().kind === 'edgeLabel') {
+        label = next().value;
+      }
+      const target = parseNodeGroup();
+      if (!target) {
+        skipStatement(linkToken, 'error', 'link is missing a target node, ignored');
+        break;
+      }
+      links.push(linkFromOperator(linkToken.operator ?? linkToken.text, spanBetween(linkToken, tokens[pos - 1]), label));
+      groups.push(target);
+      lastToken = tokens[pos - 1];
+    }
+
+    const span = spanBetween(startToken, lastToken);
+    if (links.length === 0) {
+      return { type: 'node', nodes: firstGroup, span };
+    }
+    return { type: 'edge', groups, links, span };
+  };
+
+  const parseSubgraph = (keyword: Token): FlowchartSubgraphStatement => {
+    const headerTokens: Token[] = [];
+    while (!atStatementEnd()) headerTokens.push(next());
+
+    let id: string;
+    let title: string;
+    const [first, second] = headerTokens;
+
+    if (!first) {
+      id = `subgraph_${anonymousSubgraphCount++}`;
+      title = '';
+    } else if (first.kind === 'string') {
+      id = first.value ?? '';
+      title = id;
+    } else if (headerTokens.length === 2 && first.kind === 'id' && second.kind === 'shape') {
+      id = first.text;
+      title = second.value ?? first.text;
+    } else {
+      // subgraph Some free text title
+      id = first.text;
+      title = source.slice(first.span.start.offset, headerTokens[headerTokens.length - 1].span.end.offset).trim();
+    }
+
+    const statements = parseStatements(true);
+    if (tokens[pos - 1]?.text !== 'end') {
+      diagnostics.push(createDiagnostic('error', source, keyword.span, `subgraph \`${id}\` is missing \`end\``));
+    }
+    return { type: 'subgraph', id, title, statements, span: spanBetween(keyword, tokens[pos - 1]) };
+  };
+
+  function parseStatements(insideSubgraph: boolean): FlowchartStatement[] {
+    const statements: FlowchartStatement[] = [];
+
+    while (true) {
+      skipSeparators();
+      const token = peek();
+      if (token.kind === 'eof') break;
+
+      if (token.kind === 'id' && token.text === 'end') {
+        pos++;
+        if (insideSubgraph) break;
+        diagnostics.push(createDiagnostic('error', source, token.span, '`end` without a matching `subgraph`, ignored'));
+        continue;
+      }
+
+      if (token.kind === 'id' && token.text === 'subgraph') {
+        pos++;
+        statements.push(parseSubgraph(token));
+        continue;
+      }
+
+      if (token.kind === 'id' && token.text === 'direction' && peek(1).kind === 'id') {
+        const direction = normalizeDirection(peek(1).text);
+        if (direction) {
+          pos += 2;
+          statements.push({ type: 'direction', direction, span: spanBetween(token, tokens[pos - 1]) });
+          skipToStatementEnd();
+          continue;
+        }
+      }
+
+      if (token.kind === 'id' && STYLE_KEYWORDS.has(token.text)) {
+        pos++;
+        const statement = parseStyleStatement(token);
+        if (statement) statements.push(statement);
+        continue;
+      }
+
+      if (token.kind === 'id' && SKIPPED_KEYWORDS.has(token.text)) {
+        skipStatement(token, 'warning', `unsupported syntax \`${token.text}\`, ignored`);
+        continue;
+      }
+
+      const statement = parseNodeOrEdgeStatement();
+      if (!statement) {
+        skipStatement(token, 'error', `${describeUnexpected(token)}, statement ignored`);
+        continue;
+      }
+      statements.push(statement);
+
+      if (!atStatementEnd()) {
+        skipStatement(peek(), 'error', `${describeUnexpected(peek())}, rest of statement ignored`);
+      }
+    }
+
+    return statements;
+  }
+
+  // Header: "graph LR", "flowchart TD", or just "graph"
+  skipSeparators();
+  const documentStart = peek();
+  let direction: FlowDirection = 'TB';
+  const header = peek();
+  if (header.kind === 'id' && /^(graph|flowchart)$/i.test(header.text)) {
+    pos++;
+    if (peek().kind === 'id') {
+      const directionToken = next();
+      const headerDirection = normalizeDirection(directionToken.text);
+      if (headerDirection) {
+        direction = headerDirection;
+      } else {
+        diagnostics.push(createDiagnostic(
+          'warning', source, directionToken.span, `unknown direction \`${directionToken.text}\`, using TB`
+        ));
+      }
+    }
+    if (!atStatementEnd()) {
+      skipStatement(peek(), 'error', `${describeUnexpected(peek())}, rest of header ignored`);
+    }
+  } else {
+    diagnostics.push(createDiagnostic('error', source, header.span, 'expected a `graph` or `flowchart` header'));
+  }
+
+  const statements = parseStatements(false);
+  return {
+    document: {
+      type: 'flowchart',
+      direction,
+      statements,
+      span: spanBetween(documentStart, tokens[tokens.length - 1])
+    },
+    diagnostics
+  };
+}
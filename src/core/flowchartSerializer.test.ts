@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { convertMermaidToReactFlow, ReactFlowData } from './mermaidToReactFlow';
+import { serializeFlowchart } from './flowchartSerializer';
+
+// What Mermaid text can express about a converted flowchart; positions and colours are the layout's business
+function graphOf({ nodes, edges }: ReactFlowData) {
+  return {
+    nodes: nodes
+      .map(node => ({
+        id: node.id,
+        type: node.type,
+        parentNode: node.parentNode,
+        className: node.className,
+        label: node.data?.label,
+        shape: node.data?.shape,
+        direction: node.data?.direction,
+        mermaidStyle: node.data?.mermaidStyle,
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id)),
+    edges: edges.map(edge => ({ source: edge.source, target: edge.target, label: edge.label, data: edge.data })),
+  };
+}
+
+async function roundTrip(code: string) {
+  const converted = await convertMermaidToReactFlow(code);
+  const serialized = serializeFlowchart(converted.nodes, converted.edges, code);
+  const reconverted = await convertMermaidToReactFlow(serialized);
+  return { converted, serialized, reconverted };
+}
+
+const FIXTURES: Record<string, string> = {
+  'shapes and link kinds': `flowchart LR
+    A([Start]) --> B{Ok?}
+    B -->|yes| C[(Store)]
+    B -. no .-> D((Done))
+    C ==> E[/Input/]
+    D --- F{{Prepare}}
+    E <--> F
+    F --o G>Flag]
+    G ---x H[\\Back\\]
+    H ~~~ A`,
+  'labels that need quoting': `flowchart TD
+    A["Quote #quot;this#quot;"] -->|a #124; b| B["Multi<br/>line"]
+    B --> C[Plain label, with punctuation!]`,
+  'long links': `flowchart TD
+    A ----> B
+    B -...-> C
+    C ====> D`,
+  'nested subgraphs': `flowchart TB
+    subgraph outer [Outer box]
+      direction LR
+      A --> B
+      subgraph inner
+        C
+      end
+    end
+    B --> C
+    C --> D`,
+  'classes, styles and link styles': `flowchart TD
+    A:::hot --> B
+    B --> C
+    classDef hot fill:#f96,stroke:#333
+    class B hot
+    style C fill:#0f0,stroke-width:4px
+    linkStyle 1 stroke:#00f`,
+};
+
+describe('serializeFlowchart', () => {
+  Object.entries(FIXTURES).forEach(([name, code]) => {
+    it(`keeps the diagram through parse, serialize and parse: ${name}`, async () => {
+      const { converted, serialized, reconverted } = await roundTrip(code);
+      expect(converted.diagnostics).toEqual([]);
+      expect(reconverted.diagnostics).toEqual([]);
+      expect(graphOf(reconverted)).toEqual(graphOf(converted));
+
+      // Serializing the serialized text again changes nothing
+      expect(serializeFlowchart(reconverted.nodes, reconverted.edges, serialized)).toBe(serialized);
+    });
+  });
+
+  it('carries comments, the declaration and click handlers over from the original', async () => {
+    const code = `%% leading
+graph LR
+    %% about A
+    A --> B
+    click A "https://example.com"
+    %% trailing`;
+    const { serialized } = await roundTrip(code);
+    expect(serialized).toBe(`%% leading
+graph LR
+    %% about A
+    A
+    B
+    A --> B
+    click A "https://example.com"
+    %% trailing
+`);
+  });
+
+  it('writes edits made on the canvas', async () => {
+    const { nodes, edges } = await convertMermaidToReactFlow('flowchart TD\n    A --> B');
+    const edited = nodes.map(node => (node.id === 'B' ? { ...node, data: { ...node.data, label: 'Renamed' } } : node));
+    const added = [...edges, { id: 'B-A', source: 'B', target: 'A', label: 'back' }];
+    expect(serializeFlowchart(edited, added)).toBe('flowchart TD\n    A\n    B[Renamed]\n    A --> B\n    B -->|back| A\n');
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * React Flow to Mermaid serialization for flowcharts, so that moved nodes, edited
+ * labels and edges drawn in the viewer can be written back as Mermaid text.
+ * Comments, %% @ metadata lines, classDefs and click handlers are carried over from
+ * the original source, placed before the statement they preceded where possible.
+ * Format: serializeFlowchart(nodes, edges, originalCode) -> "flowchart TD\n    A[Start] --> B"
+ */
+
+import { Node, Edge } from 'reactflow';
+import type { FlowchartLinkEnd } from './flowchartParser';
+import type { MermaidStyle } from './mermaidStyles';
+
+const INDENT = '    ';
+
+const SHAPE_DELIMITERS: Record<string, [string, string]> = {
+  'rect': ['[', ']'],
+  'round': ['(', ')'],
+  'stadium': ['([', '])'],
+  'subroutine': ['[[', ']]'],
+  'cylinder': ['[(', ')]'],
+  'circle': ['((', '))'],
+  'double-circle': ['(((', ')))'],
+  'asymmetric': ['>', ']'],
+  'diamond': ['{', '}'],
+  'hexagon': ['{{', '}}'],
+  'parallelogram': ['[/', '/]'],
+  'parallelogram-alt': ['[\\', '\\]'],
+  'trapezoid': ['[/', '\\]'],
+  'trapezoid-alt': ['[\\', '/]'],
+};
+
+const START_MARKERS: Partial<Record<FlowchartLinkEnd, string>> = { arrow: '<', circle: 'o', cross: 'x' };
+const END_MARKERS: Partial<Record<FlowchartLinkEnd, string>> = { arrow: '>', circle: 'o', cross: 'x' };
+
+const DECLARATION_PATTERN = /^(flowchart|graph)\b/;
+
+// Node ids may contain dashes (node-1), but not where a link starts (A-->B)
+const LEADING_ID = /^(?:subgraph\s+)?(\w+(?:-\w+)*)/;
+
+// Labels that can be written without quotes; anything else is quoted with entities escaped
+const PLAIN_LABEL = /^\w[\w .,:;!?'-]*$/;
+
+interface OriginalSource {
+  declaration?: string;
+  leadingComments: string[];
+  // Comment blocks keyed by the node, subgraph or keyword of the statement that follows them
+  anchoredComments: Map<string, string[]>;
+  classDefs: string[];
+  clicks: Array<{ id: string; line: string }>;
+}
+
+function readOriginalSource(code: string | undefined): OriginalSource {
+  const source: OriginalSource = { leadingComments: [], anchoredComments: new Map(), classDefs: [], clicks: [] };
+  if (!code) return source;
+
+  let pending: string[] = [];
+  for (const rawLine of code.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('%%')) {
+      (source.declaration ? pending : source.leadingComments).push(line);
+      continue;
+    }
+    if (!source.declaration) {
+      source.declaration = line;
+      continue;
+    }
+
+    const anchor = line.match(LEADING_ID)?.[1];
+    if (pending.length > 0 && anchor && anchor !== 'end') {
+      source.anchoredComments.set(anchor, [...(source.anchoredComments.get(anchor) ?? []), ...pending]);
+      pending = [];
+    }
+
+    if (anchor === 'classDef') {
+      source.classDefs.push(line);
+    } else if (anchor === 'click') {
+      const id = line.slice('click'.length).trim().match(LEADING_ID)?.[1];
+      if (id) source.clicks.push({ id, line });
+    }
+  }
+
+  // Comments at the very end have nothing to precede; they stay at the end
+  if (pending.length > 0) {
+    source.anchoredComments.set('', pending);
+  }
+  return source;
+}
+
+function formatLabel(label: string): string {
+  const text = label.replace(/\n/g, '<br/>');
+  return PLAIN_LABEL.test(text) ? text : `"${text.replace(/"/g, '#quot;')}"`;
+}
+
+function formatStyle(style: MermaidStyle): string {
+  return Object.entries(style).map(([property, value]) => `${property}:${value}`).join(',');
+}
+
+function formatNode(node: Node): string {
+  const label = String(node.data?.label ?? node.id);
+  const shape = node.data?.shape as string | undefined;
+  const delimiters = (shape && SHAPE_DELIMITERS[shape]) || SHAPE_DELIMITERS.rect;
+  if (delimiters === SHAPE_DELIMITERS.rect && label === node.id) {
+    return node.id;
+  }
+  return `${node.id}${delimiters[0]}${formatLabel(label)}${delimiters[1]}`;
+}
+
+// Rebuilds the operator from the stored link type, its length and its end markers
+function formatLink(edge: Edge): string {
+  const link: string = edge.data?.link ?? '-->';
+  const length: number = edge.data?.length ?? 1;
+  const markers: { start?: FlowchartLinkEnd; end?: FlowchartLinkEnd } = edge.data?.markers ?? { end: 'arrow' };
+  const start = (markers.start && START_MARKERS[markers.start]) ?? '';
+  const end = (markers.end && END_MARKERS[markers.end]) ?? '';
+
+  // Invisible links carry neither markers nor text
+  if (link === '~~~') {
+    return '~'.repeat(length + 2);
+  }
+
+  let operator: string;
+  if (link.startsWith('-.')) {
+    operator = `${start}-${'.'.repeat(length)}-${end}`;
+  } else {
+    // An open link ends in its own stroke character: --- is as short as -->
+    const stroke = link.startsWith('=') ? '=' : '-';
+    operator = `${start}${stroke.repeat(end ? length + 1 : length + 2)}${end}`;
+  }
+
+  const label = typeof edge.label === 'string' ? edge.label : '';
+  return label ? `${operator}|${formatLabel(label).replace(/\|/g, '#124;')}|` : operator;
+}
+
+function formatSubgraphHeader(group: Node): string {
+  const title = String(group.data?.label ?? '');
+  if (/^subgraph_\d+$/.test(group.id) && !title) {
+    return 'subgraph';
+  }
+  // subgraph "Some title" uses the title as its id
+  if (!/^[\w-]+$/.test(group.id)) {
+    return `subgraph ${formatLabel(group.id)}`;
+  }
+  return title && title !== group.id ? `subgraph ${group.id} [${formatLabel(title)}]` : `subgraph ${group.id}`;
+}
+
+export function serializeFlowchart(nodes: Node[], edges: Edge[], originalCode?: string): string {
+  const original = readOriginalSource(originalCode);
+  const groups = nodes.filter(node => node.type === 'group');
+  const flowNodes = nodes.filter(node => node.type === 'custom');
+  const body: string[] = [];
+
+  const takeComments = (anchor: string, depth: number) => {
+    const comments = original.anchoredComments.get(anchor);
+    original.anchoredComments.delete(anchor);
+    comments?.forEach(comment => body.push(INDENT.repeat(depth) + comment));
+  };
+
+  // Nodes are declared in their subgraph first, so the edges below don't change membership
+  const writeLevel = (parent: string | undefined, depth: number) => {
+    flowNodes.filter(node => node.parentNode === parent).forEach(node => {
+      takeComments(node.id, depth);
+      body.push(INDENT.repeat(depth) + formatNode(node));
+    });
+    groups.filter(group => group.parentNode === parent).forEach(group => {
+      takeComments(group.id, depth);
+      body.push(INDENT.repeat(depth) + formatSubgraphHeader(group));
+      if (group.data?.direction) {
+        body.push(INDENT.repeat(depth + 1) + `direction ${group.data.direction}`);
+      }
+      writeLevel(group.id, depth + 1);
+      body.push(INDENT.repeat(depth) + 'end');
+    });
+  };
+  writeLevel(undefined, 1);
+
+  edges.forEach(edge => {
+    body.push(`${INDENT}${edge.source} ${formatLink(edge)} ${edge.target}`);
+  });
+
+  if (original.classDefs.length > 0) {
+    takeComments('classDef', 1);
+    original.classDefs.forEach(line => body.push(INDENT + line));
+  }
+
+  // class A,B critical: one line per class, listing its members in diagram order
+  const members = new Map<string, string[]>();
+  [...groups, ...flowNodes].forEach(node => {
+    node.className?.split(/\s+/).filter(Boolean).forEach(className => {
+      members.set(className, [...(members.get(className) ?? []), node.id]);
+    });
+  });
+  if (members.size > 0) {
+    takeComments('class', 1);
+    members.forEach((ids, className) => body.push(`${INDENT}class ${ids.join(',')} ${className}`));
+  }
+
+  const styled = [...groups, ...flowNodes].filter(node => node.data?.mermaidStyle);
+  if (styled.length > 0) {
+    takeComments('style', 1);
+    styled.forEach(node => body.push(`${INDENT}style ${node.id} ${formatStyle(node.data.mermaidStyle)}`));
+  }
+
+  // linkStyle indices follow the order the edges are written in
+  if (edges.some(edge => edge.data?.mermaidStyle)) {
+    takeComments('linkStyle', 1);
+    edges.forEach((edge, index) => {
+      if (edge.data?.mermaidStyle) {
+        body.push(`${INDENT}linkStyle ${index} ${formatStyle(edge.data.mermaidStyle)}`);
+      }
+    });
+  }
+
+  const ids = new Set(nodes.map(node => node.id));
+  const clicks = original.clicks.filter(click => ids.has(click.id));
+  if (clicks.length > 0) {
+    takeComments('click', 1);
+    clicks.forEach(click => body.push(INDENT + click.line));
+  }
+
+  // Comments whose statement is gone (or was rewritten elsewhere) open the body; trailing ones close it
+  const trailing = original.anchoredComments.get('') ?? [];
+  original.anchoredComments.delete('');
+  const unplaced = [...original.anchoredComments.values()].flat();
+
+  const declaration = original.declaration && DECLARATION_PATTERN.test(original.declaration)
+    ? original.declaration
+    : 'flowchart TD';
+
+  return [
+    ...original.leadingComments,
+    declaration,
+    ...unplaced.map(comment => INDENT + comment),
+    ...body,
+    ...trailing.map(comment => INDENT + comment),
+  ].join('\n') + '\n';
+}
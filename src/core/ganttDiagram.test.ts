@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { formatGanttDate, parseGanttDate, parseGanttDiagram } from './ganttDiagram';
+import { convertMermaidToReactFlow } from './mermaidToReactFlow';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const GANTT = `gantt
+    dateFormat YYYY-MM-DD
+    section Build
+    Design :a1, 2024-01-01, 3d
+    Code :after a1, 5d`;
+
+describe('gantt charts', () => {
+  it('parses tasks with durations and dependencies', () => {
+    const parsed = parseGanttDiagram(GANTT);
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.sections).toEqual(['Build']);
+
+    const [design, code] = parsed.tasks;
+    expect(design).toMatchObject({ id: 'a1', label: 'Design', section: 'Build', dependencies: [] });
+    expect(design.end - design.start).toBe(3 * DAY);
+    expect(code).toMatchObject({ id: 'task-2', label: 'Code', section: 'Build', dependencies: ['a1'] });
+    expect(code.start).toBe(design.end);
+    expect(code.end - code.start).toBe(5 * DAY);
+  });
+
+  it('reads and formats dates in the formats the chart declares', () => {
+    expect(parseGanttDate('2024-01-31', 'YYYY-MM-DD')).toBe(Date.UTC(2024, 0, 31));
+    expect(parseGanttDate('31/01/24 13:05', 'DD/MM/YY HH:mm')).toBe(Date.UTC(2024, 0, 31, 13, 5));
+    expect(parseGanttDate('1706659200', 'X')).toBe(Date.UTC(2024, 0, 31));
+    expect(parseGanttDate('2024/01/31', 'YYYY-MM-DD')).toBeUndefined();
+    expect(formatGanttDate(Date.UTC(2024, 0, 31), '%d %b %Y')).toBe('31 Jan 2024');
+  });
+
+  it('converts to an axis, a section and a bar per task, following dependencies', async () => {
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(GANTT);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.type])).toEqual([
+      ['gantt-axis', 'ganttAxis'],
+      ['section-0', 'group'],
+      ['a1', 'ganttTask'],
+      ['task-2', 'ganttTask'],
+    ]);
+    expect(edges.map(edge => [edge.source, edge.target])).toEqual([['a1', 'task-2']]);
+
+    const [, , design, code] = nodes;
+    expect(design.data.end - design.data.start).toBe(3 * DAY);
+    expect(code.data.start).toBe(design.data.end);
+    expect(code.data.end - code.data.start).toBe(5 * DAY);
+  });
+
+  it('ends a task at the start of the task named by until', () => {
+    const { tasks, diagnostics } = parseGanttDiagram(`gantt
+    dateFormat YYYY-MM-DD
+    Design :a1, 2024-01-01, 3d
+    Review :b1, 2024-01-10, 2d
+    Code :c1, after a1, until b1`);
+    expect(diagnostics).toEqual([]);
+    expect(tasks[2]).toMatchObject({ start: Date.UTC(2024, 0, 4), end: Date.UTC(2024, 0, 10), dependencies: ['a1'] });
+  });
+
+  it('warns about tasks that end before they start', () => {
+    const { tasks, diagnostics } = parseGanttDiagram(`gantt
+    dateFormat YYYY-MM-DD
+    Task4 :2024-02-01, 2024-01-01
+    Review :b1, 2024-01-10, 2d
+    Code :c1, 2024-01-20, until b1`);
+    expect(tasks.map(task => task.end - task.start)).toEqual([0, 2 * DAY, 0]);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', line: 3, message: '`2024-01-01` is before the task\'s start, using a zero duration' }),
+      expect.objectContaining({ severity: 'warning', line: 5, message: '`until b1` is before the task\'s start, using a zero duration' }),
+    ]);
+  });
+
+  it('reports dates it cannot read', async () => {
+    const { nodes, diagnostics } = await convertMermaidToReactFlow(`gantt
+    dateFormat YYYY-MM-DD
+    Design :a1, 01/02/2024, 3d
+    Code :a2, 2024-01-01, 2d`);
+    expect(nodes.map(node => node.id)).toContain('a2');
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', line: 3, message: 'could not read `01/02/2024` as a `YYYY-MM-DD` date' }),
+    ]);
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * Mermaid gantt conversion: tasks become bars on a time axis, sections become
+ * swimlane groups and `after` dependencies become edges between the bars.
+ * Format: section Build, Compile :done, compile, 2024-01-01, 3d, Test :after compile, 2d
+ */
+
+import { Node, Edge, MarkerType, Position } from 'reactflow';
+import type { ReactFlowData } from './mermaidToReactFlow';
+import { ConversionDiagnostic, createLineDiagnostic } from './diagnostics';
+
+export type GanttTag = 'done' | 'active' | 'crit' | 'milestone';
+
+interface GanttTask {
+  id: string;
+  label: string;
+  section?: string;
+  start: number; // Epoch milliseconds
+  end: number;
+  tags: GanttTag[];
+  dependencies: string[];
+}
+
+const GANTT_TAGS = new Set<string>(['done', 'active', 'crit', 'milestone']);
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: HOUR,
+  d: DAY,
+  w: 7 * DAY,
+};
+
+// Spacing of the axis ticks, chosen so the axis shows about a dozen of them
+const TICK_INTERVALS = [HOUR, 6 * HOUR, DAY, 2 * DAY, 7 * DAY, 14 * DAY, 30 * DAY, 90 * DAY, 365 * DAY];
+const TICK_INTERVAL_UNITS: Record<string, number> = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60 * 1000,
+  hour: HOUR,
+  day: DAY,
+  week: 7 * DAY,
+  month: 30 * DAY,
+};
+
+// Statements that only affect Mermaid's own rendering
+const IGNORED_STATEMENTS = /^(todayMarker|weekday|displayMode|topAxis|accTitle|accDescr)\b/;
+
+const CHART_WIDTH = 1000;
+const AXIS_HEIGHT = 40;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 24;
+const SECTION_HEADER_HEIGHT = 40;
+const SECTION_PADDING = 20;
+const MILESTONE_SIZE = 20;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const SECTION_COLORS = [
+  { bg: 'rgba(227, 242, 253, 0.4)', border: '#1976D2' },
+  { bg: 'rgba(232, 245, 233, 0.4)', border: '#388E3C' },
+  { bg: 'rgba(243, 229, 245, 0.4)', border: '#7B1FA2' },
+  { bg: 'rgba(255, 243, 224, 0.4)', border: '#F57C00' },
+];
+
+// Parse a date written in a dayjs-style dateFormat such as YYYY-MM-DD or DD/MM/YYYY HH:mm.
+// Dates are read as UTC so the layout does not depend on the local time zone.
+export function parseGanttDate(text: string, format: string): number | undefined {
+  if (format === 'X') return /^\d+$/.test(text) ? Number(text) * 1000 : undefined;
+  if (format === 'x') return /^\d+$/.test(text) ? Number(text) : undefined;
+
+  const fields: string[] = [];
+  const pattern = format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss|SSS|[.*+?^${}()|[\]\\]/g, token => {
+    if (!/^[YMDHmsS]/.test(token)) return `\\${token}`;
+    fields.push(token);
+    return token.length === 1 ? '(\\d{1,2})' : `(\\d{${token.length}})`;
+  });
+  const match = text.match(new RegExp(`^${pattern}$`));
+  if (!match) return undefined;
+
+  const parts = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  fields.forEach((field, index) => {
+    const value = Number(match[index + 1]);
+    switch (field[0]) {
+      case 'Y':
+        parts.year = field === 'YY' ? 2000 + value : value;
+        break;
+      case 'M':
+        parts.month = value;
+        break;
+      case 'D':
+        parts.day = value;
+        break;
+      case 'H':
+        parts.hour = value;
+        break;
+      case 'm':
+        parts.minute = value;
+        break;
+      case 's':
+        parts.second = value;
+        break;
+      case 'S':
+        parts.millisecond = value;
+        break;
+    }
+  });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+}
+
+// Format an axis tick with the d3-style directives Mermaid's axisFormat uses
+export function formatGanttDate(time: number, format: string): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return format.replace(/%([a-zA-Z%])/g, (directive, code: string) => {
+    switch (code) {
+      case 'Y': return String(date.getUTCFullYear());
+      case 'y': return pad(date.getUTCFullYear() % 100);
+      case 'm': return pad(date.getUTCMonth() + 1);
+      case 'd': return pad(date.getUTCDate());
+      case 'e': return String(date.getUTCDate());
+      case 'b': return MONTH_NAMES[date.getUTCMonth()].slice(0, 3);
+      case 'B': return MONTH_NAMES[date.getUTCMonth()];
+      case 'a': return DAY_NAMES[date.getUTCDay()].slice(0, 3);
+      case 'A': return DAY_NAMES[date.getUTCDay()];
+      case 'H': return pad(date.getUTCHours());
+      case 'M': return pad(date.getUTCMinutes());
+      case 'S': return pad(date.getUTCSeconds());
+      case '%': return '%';
+      default: return directive;
+    }
+  });
+}
+
+function parseDuration(text: string): number | undefined {
+  const match = text.match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/);
+  return match ? Number(match[1]) * DURATION_UNITS[match[2]] : undefined;
+}
+
+export interface ParsedGanttDiagram {
+  title?: string;
+  axisFormat: string;
+  tickInterval?: number;
+  tasks: GanttTask[];
+  sections: string[];
+  diagnostics: ConversionDiagnostic[];
+}
+
+export function parseGanttDiagram(code: string): ParsedGanttDiagram {
+  const lines = code.split('\n');
+  const tasks: GanttTask[] = [];
+  const taskMap = new Map<string, GanttTask>();
+  const sections: string[] = [];
+  const diagnostics: ConversionDiagnostic[] = [];
+  let title: string | undefined;
+  let dateFormat = 'YYYY-MM-DD';
+  let axisFormat = '%Y-%m-%d';
+  let tickInterval: number | undefined;
+  let section: string | undefined;
+  let seenHeader = false;
+
+  // Tasks without a start follow the previous one; the very first starts today, as in Mermaid
+  const today = new Date();
+  let previousEnd = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%%')) continue;
+
+    if (!seenHeader) {
+      seenHeader = true;
+      if (/^gantt\b/.test(line)) continue;
+    }
+
+    const keywordMatch = line.match(/^(title|dateFormat|axisFormat|tickInterval|section|excludes|includes|inclusiveEndDates|click)\b\s*(.*)$/);
+    if (keywordMatch) {
+      const [, keyword, value] = keywordMatch;
+      switch (keyword) {
+        case 'title':
+          title = value;
+          break;
+        case 'dateFormat':
+          dateFormat = value;
+          break;
+        case 'axisFormat':
+          axisFormat = value;
+          break;
+        case 'tickInterval': {
+          const interval = value.match(/^(\d+)(millisecond|second|minute|hour|day|week|month)$/);
+          if (interval) {
+            tickInterval = Number(interval[1]) * TICK_INTERVAL_UNITS[interval[2]];
+          } else {
+            diagnostics.push(createLineDiagnostic('warning', lines, index, `invalid tick interval \`${value}\`, ignored`));
+          }
+          break;
+        }
+        case 'section':
+          section = value;
+          if (!sections.includes(value)) sections.push(value);
+          break;
+        default:
+          diagnostics.push(createLineDiagnostic('warning', lines, index, `unsupported gantt syntax \`${keyword}\`, ignored`));
+      }
+      continue;
+    }
+
+    if (IGNORED_STATEMENTS.test(line)) continue;
+
+    const taskMatch = line.match(/^([^:]+?)\s*:\s*(.+)$/);
+    if (!taskMatch) {
+      diagnostics.push(createLineDiagnostic('warning', lines, index, 'unrecognised gantt statement, ignored'));
+      continue;
+    }
+
+    // Leading tags, then [[id,] start,] end-or-duration
+    const [, label, metadata] = taskMatch;
+    const items = metadata.split(',').map(item => item.trim());
+    const tags: GanttTag[] = [];
+    while (items.length > 1 && GANTT_TAGS.has(items[0])) {
+      tags.push(items.shift() as GanttTag);
+    }
+    if (items.length === 1 && GANTT_TAGS.has(items[0])) {
+      tags.push(items.shift() as GanttTag);
+    }
+
+    const id = items.length === 3 ? items.shift()! : `task-${tasks.length + 1}`;
+    const startText = items.length === 2 ? items.shift()! : undefined;
+    const endText = items.shift() ?? '0d';
+
+    const dependencies: string[] = [];
+    let start = previousEnd;
+    const afterMatch = startText?.match(/^after\s+(.+)$/);
+    if (afterMatch) {
+      const ends = afterMatch[1].split(/\s+/).map(dependency => {
+        const predecessor = taskMap.get(dependency);
+        if (!predecessor) {
+          diagnostics.push(createLineDiagnostic('warning', lines, index, `task \`${dependency}\` is not defined, dependency ignored`));
+          return undefined;
+        }
+        dependencies.push(dependency);
+        return predecessor.end;
+      }).filter((end): end is number => end !== undefined);
+      if (ends.length > 0) start = Math.max(...ends);
+    } else if (startText) {
+      const parsed = parseGanttDate(startText, dateFormat);
+      if (parsed === undefined) {
+        diagnostics.push(createLineDiagnostic('error', lines, index, `could not read \`${startText}\` as a \`${dateFormat}\` date`));
+        continue;
+      }
+      start = parsed;
+    }
+
+    let end: number | undefined;
+    const untilMatch = endText.match(/^until\s+(\S+)$/);
+    if (untilMatch) {
+      end = taskMap.get(untilMatch[1])?.start;
+      if (end === undefined) {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, `task \`${untilMatch[1]}\` is not defined, using a zero duration`));
+        end = start;
+      }
+    } else {
+      const duration = parseDuration(endText);
+      end = duration !== undefined ? start + duration : parseGanttDate(endText, dateFormat);
+      if (end === undefined) {
+        diagnostics.push(createLineDiagnostic('error', lines, index, `could not read \`${endText}\` as a duration or \`${dateFormat}\` date`));
+        continue;
+      }
+    }
+
+    if (end < start) {
+      diagnostics.push(createLineDiagnostic('warning', lines, index, `\`${endText}\` is before the task's start, using a zero duration`));
+      end = start;
+    }
+
+    const task: GanttTask = { id, label, section, start, end, tags, dependencies };
+    tasks.push(task);
+    taskMap.set(id, task);
+    previousEnd = task.end;
+  }
+
+  return { title, axisFormat, tickInterval, tasks, sections, diagnostics };
+}
+
+export function layoutGanttDiagram(parsed: ParsedGanttDiagram): ReactFlowData {
+  const { title, axisFormat, tickInterval, tasks, sections } = parsed;
+  if (tasks.length === 0) {
+    return { nodes: [], edges: [] };
+  }
+
+  // Time runs left to right across a fixed-width chart
+  const chartStart = Math.min(...tasks.map(task => task.start));
+  const chartEnd = Math.max(...tasks.map(task => task.end), chartStart + DAY);
+  const scale = CHART_WIDTH / (chartEnd - chartStart);
+  const toX = (time: number) => SECTION_PADDING + (time - chartStart) * scale;
+
+  const interval = tickInterval
+    ?? TICK_INTERVALS.find(candidate => (chartEnd - chartStart) / candidate <= 12)
+    ?? TICK_INTERVALS[TICK_INTERVALS.length - 1];
+  const ticks: Array<{ offset: number; label: string }> = [];
+  for (let time = chartStart; time <= chartEnd; time += interval) {
+    ticks.push({ offset: toX(time), label: formatGanttDate(time, axisFormat) });
+  }
+
+  const taskNode = (task: GanttTask, position: { x: number; y: number }, parentNode?: string): Node => {
+    const milestone = task.tags.includes('milestone');
+    const width = milestone ? MILESTONE_SIZE : Math.max(4, (task.end - task.start) * scale);
+    return {
+      id: task.id,
+      type: 'ganttTask',
+      position: milestone ? { x: position.x - MILESTONE_SIZE / 2, y: position.y + (BAR_HEIGHT - MILESTONE_SIZE) / 2 } : position,
+      data: {
+        label: task.label,
+        tags: task.tags,
+        start: task.start,
+        end: task.end
+      },
+      style: { width, height: milestone ? MILESTONE_SIZE : BAR_HEIGHT },
+      sourcePosition: Position.Right,
+      targetPosition: Position.Left,
+      parentNode,
+      extent: parentNode ? 'parent' : undefined,
+    };
+  };
+
+  const nodes: Node[] = [];
+  const laneWidth = CHART_WIDTH + SECTION_PADDING * 2;
+  let y = AXIS_HEIGHT + 10;
+
+  // Tasks declared before the first section sit above the swimlanes
+  tasks.filter(task => task.section === undefined).forEach(task => {
+    nodes.push(taskNode(task, { x: toX(task.start), y }));
+    y += ROW_HEIGHT;
+  });
+
+  // Each section is a swimlane holding one row per task; groups precede their tasks
+  sections.forEach((section, index) => {
+    const sectionTasks = tasks.filter(task => task.section === section);
+    const height = SECTION_HEADER_HEIGHT + Math.max(1, sectionTasks.length) * ROW_HEIGHT + 10;
+    const colors = SECTION_COLORS[index % SECTION_COLORS.length];
+    const groupId = `section-${index}`;
+
+    nodes.push({
+      id: groupId,
+      type: 'group',
+      position: { x: 0, y },
+      data: { label: section, isSubgraph: true },
+      style: {
+        backgroundColor: colors.bg,
+        border: `2px solid ${colors.border}`,
+        borderRadius: '8px',
+        width: laneWidth,
+        height,
+        zIndex: -1,
+      },
+      selectable: true,
+      draggable: true,
+      connectable: false,
+    });
+    sectionTasks.forEach((task, row) => {
+      nodes.push(taskNode(task, { x: toX(task.start), y: SECTION_HEADER_HEIGHT + row * ROW_HEIGHT + 6 }, groupId));
+    });
+    y += height + 10;
+  });
+
+  // The axis and its gridlines run behind everything else
+  nodes.unshift({
+    id: 'gantt-axis',
+    type: 'ganttAxis',
+    position: { x: 0, y: 0 },
+    data: { title, ticks },
+    style: { width: laneWidth, height: y, zIndex: -2 },
+    draggable: false,
+    selectable: false,
+    connectable: false,
+  });
+
+  const edges: Edge[] = tasks.flatMap(task => task.dependencies.map(dependency => ({
+    id: `dependency-${dependency}-${task.id}`,
+    source: dependency,
+    target: task.id,
+    type: 'smoothstep',
+    style: { stroke: '#64748B', strokeWidth: 1.5 },
+    markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16, color: '#64748B' },
+  })));
+
+  return { nodes, edges };
+}
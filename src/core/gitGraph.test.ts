@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseGitGraph } from './gitGraph';
+import { convertMermaidToReactFlow } from './mermaidToReactFlow';
+
+const GIT_GRAPH = `gitGraph
+    commit id: "one"
+    branch dev
+    commit id: "two" tag: "v1"
+    checkout main
+    merge dev`;
+
+describe('git graphs', () => {
+  it('parses commits, branches and merges', () => {
+    const parsed = parseGitGraph(GIT_GRAPH);
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.commits.map(({ id, branch, parents }) => ({ id, branch, parents }))).toEqual([
+      { id: 'one', branch: 'main', parents: [] },
+      { id: 'two', branch: 'dev', parents: ['one'] },
+      { id: '2-main', branch: 'main', parents: ['one', 'two'] },
+    ]);
+    expect(parsed.branches.map(({ name, head }) => [name, head])).toEqual([
+      ['main', '2-main'],
+      ['dev', 'two'],
+    ]);
+  });
+
+  it('converts to a lane per branch and a node per commit', async () => {
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(GIT_GRAPH);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.type, node.data.branch])).toEqual([
+      ['lane-main', 'gitBranch', undefined],
+      ['lane-dev', 'gitBranch', undefined],
+      ['one', 'gitCommit', 'main'],
+      ['two', 'gitCommit', 'dev'],
+      ['2-main', 'gitCommit', 'main'],
+    ]);
+    expect(nodes[3].data.tags).toEqual(['v1']);
+    expect(nodes[4].data.merge).toBe(true);
+    expect(edges.map(edge => [edge.source, edge.target])).toEqual([
+      ['one', 'two'],
+      ['one', '2-main'],
+      ['two', '2-main'],
+    ]);
+  });
+
+  it('places commits in order along their branch lane', async () => {
+    const { nodes } = await convertMermaidToReactFlow(GIT_GRAPH);
+    const [mainLane, devLane, one, two, merge] = nodes;
+    expect([one.position.y, merge.position.y]).toEqual([mainLane.position.y, mainLane.position.y]);
+    expect(two.position.y).toBe(devLane.position.y);
+    expect(one.position.x).toBeLessThan(two.position.x);
+    expect(two.position.x).toBeLessThan(merge.position.x);
+  });
+
+  it('reports checkouts of branches that do not exist', async () => {
+    const { diagnostics } = await convertMermaidToReactFlow(`gitGraph
+    commit
+    checkout nope`);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', line: 3, message: 'unknown branch `nope`' }),
+    ]);
+  });
+});
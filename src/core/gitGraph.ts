@@ -0,0 +1,286 @@
+/**
+ * Mermaid gitGraph conversion: commits become nodes linked to their parents, and
+ * each branch runs along its own coloured lane in the order commits were made.
+ * Format: gitGraph LR:, commit id: "A" tag: "v1", branch develop, checkout main, merge develop
+ */
+
+import { Node, Edge } from 'reactflow';
+import type { ReactFlowData } from './mermaidToReactFlow';
+import { ConversionDiagnostic, createLineDiagnostic } from './diagnostics';
+import { FlowDirection } from './flowchartParser';
+import { getHandlePositions } from './diagramLayout';
+
+export type GitCommitType = 'NORMAL' | 'REVERSE' | 'HIGHLIGHT';
+
+interface GitCommit {
+  id: string;
+  customId: boolean; // Generated ids are not worth showing on the graph
+  branch: string;
+  parents: string[];
+  tags: string[];
+  type: GitCommitType;
+  cherryPickOf?: string;
+  seq: number;
+}
+
+interface GitBranch {
+  name: string;
+  order?: number;
+  head?: string; // Latest commit on the branch
+  seq: number;
+}
+
+// Statements that only affect Mermaid's own rendering
+const IGNORED_STATEMENTS = /^(accTitle|accDescr|title)\b/;
+
+const ATTRIBUTE_PATTERN = /(\w+)\s*:\s*("[^"]*"|\S+)/g;
+
+const BRANCH_COLORS = ['#0EA5E9', '#F59E0B', '#10B981', '#EC4899', '#8B5CF6', '#EF4444', '#14B8A6', '#6366F1'];
+
+const COMMIT_SPACING = 70;
+const LANE_SPACING = 80;
+const COMMIT_SIZE = 22;
+const LANE_LABEL_SIZE = 110;
+
+function unquote(text: string): string {
+  return text.trim().replace(/^"(.*)"$/, '$1');
+}
+
+// Attributes such as id: "A" tag: "v1" type: HIGHLIGHT, in any order
+function parseAttributes(text: string): { attributes: Map<string, string>; rest: string } {
+  const attributes = new Map<string, string>();
+  const rest = text.replace(ATTRIBUTE_PATTERN, (_match, key: string, value: string) => {
+    // tag may be repeated; keep every one
+    const existing = attributes.get(key);
+    attributes.set(key, existing !== undefined && key === 'tag' ? `${existing}\n${unquote(value)}` : unquote(value));
+    return '';
+  });
+  return { attributes, rest: rest.trim() };
+}
+
+export interface ParsedGitGraph {
+  commits: GitCommit[];
+  branches: GitBranch[];
+  direction: FlowDirection;
+  diagnostics: ConversionDiagnostic[];
+}
+
+export function parseGitGraph(code: string): ParsedGitGraph {
+  const lines = code.split('\n');
+  const diagnostics: ConversionDiagnostic[] = [];
+  const commits = new Map<string, GitCommit>();
+  const branches = new Map<string, GitBranch>([['main', { name: 'main', seq: 0 }]]);
+  let current = branches.get('main')!;
+  let direction: FlowDirection = 'LR';
+  let seenHeader = false;
+
+  const addCommit = (lineIndex: number, attributes: Map<string, string>, parents: string[], cherryPickOf?: string) => {
+    const seq = commits.size;
+    let id = attributes.get('id') ?? `${seq}-${current.name}`;
+    if (commits.has(id)) {
+      diagnostics.push(createLineDiagnostic('error', lines, lineIndex, `commit id \`${id}\` is already used`));
+      id = `${id}-${seq}`;
+    }
+    const type = attributes.get('type')?.toUpperCase() ?? 'NORMAL';
+    if (type !== 'NORMAL' && type !== 'REVERSE' && type !== 'HIGHLIGHT') {
+      diagnostics.push(createLineDiagnostic('warning', lines, lineIndex, `unknown commit type \`${type}\`, using NORMAL`));
+    }
+    commits.set(id, {
+      id,
+      customId: attributes.has('id'),
+      branch: current.name,
+      parents,
+      tags: attributes.get('tag')?.split('\n') ?? [],
+      type: type === 'REVERSE' || type === 'HIGHLIGHT' ? type : 'NORMAL',
+      cherryPickOf,
+      seq
+    });
+    current.head = id;
+  };
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%%') || IGNORED_STATEMENTS.test(line)) continue;
+
+    if (!seenHeader) {
+      seenHeader = true;
+      const headerMatch = line.match(/^gitGraph\b\s*(?:(LR|TB|BT)\s*:?)?\s*$/);
+      if (headerMatch) {
+        if (headerMatch[1]) direction = headerMatch[1] as FlowDirection;
+        continue;
+      }
+    }
+
+    const statementMatch = line.match(/^(commit|branch|checkout|switch|merge|cherry-pick)\b\s*(.*)$/);
+    if (!statementMatch) {
+      diagnostics.push(createLineDiagnostic('warning', lines, index, 'unrecognised gitGraph statement, ignored'));
+      continue;
+    }
+    const [, keyword, argumentText] = statementMatch;
+    const { attributes, rest } = parseAttributes(argumentText);
+    const target = rest ? unquote(rest) : undefined;
+
+    switch (keyword) {
+      case 'commit':
+        addCommit(index, attributes, current.head ? [current.head] : []);
+        break;
+
+      case 'branch': {
+        if (!target) {
+          diagnostics.push(createLineDiagnostic('error', lines, index, 'branch needs a name'));
+        } else if (branches.has(target)) {
+          diagnostics.push(createLineDiagnostic('error', lines, index, `branch \`${target}\` already exists`));
+        } else {
+          // A new branch starts from the current commit and is checked out
+          const order = attributes.has('order') ? Number(attributes.get('order')) : undefined;
+          current = { name: target, order, head: current.head, seq: branches.size };
+          branches.set(target, current);
+        }
+        break;
+      }
+
+      case 'checkout':
+      case 'switch': {
+        const branch = target ? branches.get(target) : undefined;
+        if (branch) {
+          current = branch;
+        } else {
+          diagnostics.push(createLineDiagnostic('error', lines, index, `unknown branch \`${target ?? ''}\``));
+        }
+        break;
+      }
+
+      case 'merge': {
+        const branch = target ? branches.get(target) : undefined;
+        if (!branch) {
+          diagnostics.push(createLineDiagnostic('error', lines, index, `unknown branch \`${target ?? ''}\``));
+        } else if (branch === current) {
+          diagnostics.push(createLineDiagnostic('error', lines, index, 'cannot merge a branch into itself'));
+        } else if (!branch.head || !current.head) {
+          diagnostics.push(createLineDiagnostic('error', lines, index, 'cannot merge a branch without commits'));
+        } else if (branch.head === current.head) {
+          diagnostics.push(createLineDiagnostic('warning', lines, index, `\`${target}\` has nothing to merge, ignored`));
+        } else {
+          addCommit(index, attributes, [current.head, branch.head]);
+        }
+        break;
+      }
+
+      case 'cherry-pick': {
+        const sourceId = attributes.get('id');
+        const source = sourceId ? commits.get(sourceId) : undefined;
+        if (!source) {
+          diagnostics.push(createLineDiagnostic('error', lines, index, `unknown commit \`${sourceId ?? ''}\` to cherry-pick`));
+        } else if (source.branch === current.name) {
+          diagnostics.push(createLineDiagnostic('error', lines, index, 'cannot cherry-pick a commit onto its own branch'));
+        } else {
+          // The picked commit gets a fresh id; the tag defaults to where it came from
+          const pickAttributes = new Map(attributes);
+          pickAttributes.delete('id');
+          if (!pickAttributes.has('tag')) pickAttributes.set('tag', `cherry-pick: ${source.id}`);
+          addCommit(index, pickAttributes, current.head ? [current.head] : [], source.id);
+        }
+        break;
+      }
+    }
+  }
+
+  return { commits: [...commits.values()], branches: [...branches.values()], direction, diagnostics };
+}
+
+export function layoutGitGraph(parsed: ParsedGitGraph): ReactFlowData {
+  const { commits, branches, direction } = parsed;
+  if (commits.length === 0) {
+    return { nodes: [], edges: [] };
+  }
+  const { sourcePosition, targetPosition } = getHandlePositions(direction);
+  const horizontal = direction === 'LR';
+
+  // Lanes follow each branch's order, then the order branches were created in
+  const lanes = [...branches]
+    .sort((a, b) => (a.order ?? a.seq) - (b.order ?? b.seq) || a.seq - b.seq);
+  const laneIndex = new Map(lanes.map((branch, index) => [branch.name, index]));
+  const colors = new Map(branches.map(branch => [branch.name, BRANCH_COLORS[branch.seq % BRANCH_COLORS.length]]));
+
+  // Commits advance along the lane in the order they were made; BT runs upwards
+  const length = commits.length * COMMIT_SPACING;
+  const centre = (commit: GitCommit) => {
+    const along = LANE_LABEL_SIZE + commit.seq * COMMIT_SPACING + COMMIT_SPACING / 2;
+    const across = laneIndex.get(commit.branch)! * LANE_SPACING;
+    if (horizontal) return { x: along, y: across };
+    return { x: across, y: direction === 'BT' ? length + LANE_LABEL_SIZE - along : along };
+  };
+
+  // Lanes run the whole length of the graph, behind the commits
+  const nodes: Node[] = lanes.map(branch => {
+    const across = laneIndex.get(branch.name)! * LANE_SPACING;
+    const laneLength = LANE_LABEL_SIZE + length;
+    return {
+      id: `lane-${branch.name}`,
+      type: 'gitBranch',
+      position: horizontal
+        ? { x: 0, y: across - COMMIT_SIZE / 2 }
+        : { x: across - COMMIT_SIZE / 2, y: 0 },
+      data: { label: branch.name, color: colors.get(branch.name), direction },
+      style: horizontal
+        ? { width: laneLength, height: COMMIT_SIZE, zIndex: -1 }
+        : { width: COMMIT_SIZE, height: laneLength, zIndex: -1 },
+      draggable: false,
+      selectable: false,
+      connectable: false,
+    };
+  });
+
+  commits.forEach(commit => {
+    const { x, y } = centre(commit);
+    nodes.push({
+      id: commit.id,
+      type: 'gitCommit',
+      position: { x: x - COMMIT_SIZE / 2, y: y - COMMIT_SIZE / 2 },
+      data: {
+        label: commit.customId ? commit.id : '',
+        commitId: commit.id,
+        branch: commit.branch,
+        tags: commit.tags,
+        commitType: commit.type,
+        merge: commit.parents.length > 1,
+        cherryPick: commit.cherryPickOf !== undefined,
+        color: colors.get(commit.branch),
+        direction,
+        outlined: true
+      },
+      style: { width: COMMIT_SIZE, height: COMMIT_SIZE },
+      sourcePosition,
+      targetPosition,
+    });
+  });
+
+  // Parent links take the colour of the branch they come from, except a branch's first
+  // commit, whose link is drawn in the new branch's colour
+  const byId = new Map(commits.map(commit => [commit.id, commit]));
+  const edges: Edge[] = commits.flatMap(commit => {
+    const parentEdges: Edge[] = commit.parents.map((parentId, index) => {
+      const parent = byId.get(parentId)!;
+      const color = colors.get(index === 0 ? commit.branch : parent.branch);
+      return {
+        id: `parent-${parentId}-${commit.id}`,
+        source: parentId,
+        target: commit.id,
+        type: parent.branch === commit.branch ? 'straight' : 'smoothstep',
+        style: { stroke: color, strokeWidth: 3 },
+      };
+    });
+    if (commit.cherryPickOf) {
+      parentEdges.push({
+        id: `cherry-pick-${commit.cherryPickOf}-${commit.id}`,
+        source: commit.cherryPickOf,
+        target: commit.id,
+        type: 'smoothstep',
+        style: { stroke: colors.get(byId.get(commit.cherryPickOf)!.branch), strokeWidth: 1.5, strokeDasharray: '4,4' },
+      });
+    }
+    return parentEdges;
+  });
+
+  return { nodes, edges };
+}
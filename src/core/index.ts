@@ -0,0 +1,24 @@
+/**
+ * Headless entry point: everything needed to convert Mermaid source to React Flow
+ * nodes and edges without a browser, for Node scripts, docs builds and the CLI.
+ */
+
+export {
+  convertMermaidToReactFlow,
+  registerDiagramConverter,
+  findDiagramConverter,
+  getDiagramConverters,
+} from './mermaidToReactFlow';
+export type {
+  ConversionOptions,
+  ConversionResult,
+  ReactFlowData,
+  DiagramConverter,
+  ParsedDiagram,
+  RegisteredDiagramConverter,
+} from './mermaidToReactFlow';
+export { serializeFlowchart } from './flowchartSerializer';
+export { extractMermaidDiagrams, detectDiagramType, isSupportedDiagram } from './mermaidParser';
+export type { MermaidDiagram } from './mermaidParser';
+export type { ConversionDiagnostic, DiagnosticSeverity } from './diagnostics';
+export type { MindmapLayout } from './mindmapDiagram';
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { detectDiagramType, extractMermaidDiagrams, isSupportedDiagram } from './mermaidParser';
+
+const NOTE = `# Plans
+
+## Release flow
+
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+
+Some text.
+
+\`\`\`mermaid
+journey
+  title Commute
+\`\`\`
+`;
+
+describe('extractMermaidDiagrams', () => {
+  it('finds each mermaid block, named after the heading above it', () => {
+    const diagrams = extractMermaidDiagrams(NOTE);
+    expect(diagrams.map(({ type, code, name }) => ({ type, code, name }))).toEqual([
+      { type: 'flowchart', code: 'flowchart LR\n  A --> B', name: 'Release flow' },
+      { type: 'unknown', code: 'journey\n  title Commute', name: 'unknown diagram' },
+    ]);
+    expect(diagrams.map(diagram => diagram.line)).toEqual([6, 13]);
+    expect(NOTE.slice(diagrams[0].position.start, diagrams[0].position.end)).toBe(
+      '```mermaid\nflowchart LR\n  A --> B\n```'
+    );
+  });
+});
+
+describe('detectDiagramType', () => {
+  it('names the registered type, skipping comments before the declaration', () => {
+    expect(detectDiagramType('%% title\ngraph TD\n  A')).toBe('flowchart');
+    expect(detectDiagramType('erDiagram\n  A ||--o{ B : has')).toBe('er');
+    expect(detectDiagramType('journey')).toBe('unknown');
+    expect(isSupportedDiagram('pie\n  "a" : 1')).toBe(true);
+    expect(isSupportedDiagram('journey')).toBe(false);
+  });
+});
@@ -1,76 +1,133 @@
+import { findDiagramConverter } from './mermaidToReactFlow';
+
 export interface MermaidDiagram {
   type: string;
   code: string;
   name: string;
+  line: number; // Line of the markdown (from 1) that the code starts on
   position: {
     start: number;
     end: number;
   };
 }
 
+export interface MermaidBlock {
+  code: string; // The block's text with \n line endings and the fence's indentation removed
+  // Offsets of the raw body: after the opening fence's line, up to the closing fence's line
+  start: number;
+  end: number;
+  // Offsets of the whole block: from the opening fence to the end of the closing fence
+  blockStart: number;
+  blockEnd: number;
+  indent: string; // The opening fence's indentation, e.g. inside a list item
+  lineEnding: '\n' | '\r\n';
+}
+
+// ```mermaid or ~~~mermaid, optionally indented and followed by attributes
+const OPENING_FENCE = /^([ \t]*)(`{3,}|~{3,})[ \t]*mermaid(?:[ \t].*)?$/;
+const CLOSING_FENCE = /^[ \t]*(`{3,}|~{3,})[ \t]*$/;
+
+// Every fenced mermaid block in the markdown, in order, whatever its diagram type
+export function scanMermaidBlocks(markdown: string): MermaidBlock[] {
+  const blocks: MermaidBlock[] = [];
+  let open: Pick<MermaidBlock, 'start' | 'blockStart' | 'indent' | 'lineEnding'> & { fence: string } | null = null;
+  let offset = 0;
+
+  while (offset < markdown.length) {
+    const newline = markdown.indexOf('\n', offset);
+    const lineEnd = newline === -1 ? markdown.length : newline;
+    const next = newline === -1 ? markdown.length : newline + 1;
+    const line = markdown.slice(offset, lineEnd).replace(/\r$/, '');
+
+    if (!open) {
+      const match = line.match(OPENING_FENCE);
+      if (match) {
+        open = {
+          fence: match[2],
+          start: next,
+          blockStart: offset,
+          indent: match[1],
+          lineEnding: markdown[newline - 1] === '\r' ? '\r\n' : '\n',
+        };
+      }
+    } else {
+      // The closing fence uses the same character and is at least as long as the opening one
+      const fence = line.match(CLOSING_FENCE)?.[1];
+      if (fence && fence[0] === open.fence[0] && fence.length >= open.fence.length) {
+        const indent = open.indent;
+        const code = markdown
+          .slice(open.start, offset)
+          .replace(/\r\n/g, '\n')
+          .split('\n')
+          .map(bodyLine => (bodyLine.startsWith(indent) ? bodyLine.slice(indent.length) : bodyLine))
+          .join('\n');
+        blocks.push({
+          code,
+          start: open.start,
+          end: offset,
+          blockStart: open.blockStart,
+          blockEnd: offset + line.length,
+          indent,
+          lineEnding: open.lineEnding,
+        });
+        open = null;
+      }
+    }
+    offset = next;
+  }
+
+  return blocks;
+}
+
 export function extractMermaidDiagrams(markdown: string): MermaidDiagram[] {
-  const diagrams: MermaidDiagram[] = [];
-  const lines = markdown.split('\n');
-  const mermaidBlockRegex = /```mermaid\n([\s\S]*?)```/g;
-  
-  let match;
-  while ((match = mermaidBlockRegex.exec(markdown)) !== null) {
-    const code = match[1].trim();
+  const lines = markdown.split(/\r?\n/);
+  const lineOf = (offset: number) => markdown.slice(0, offset).split('\n').length - 1;
+
+  return scanMermaidBlocks(markdown).map(block => {
+    const code = block.code.trim();
     const type = detectDiagramType(code);
-    
+
     // Find the heading above this diagram
-    const diagramStartLine = markdown.substring(0, match.index).split('\n').length - 1;
+    const diagramStartLine = lineOf(block.blockStart);
     let name = `${type} diagram`;
-    
+
     // Look backwards from the diagram to find the nearest heading
     for (let i = diagramStartLine - 1; i >= 0; i--) {
       const line = lines[i].trim();
-      
+
       // Check if it's a heading (starts with #)
       if (line.startsWith('#')) {
         // Extract the heading text without the # symbols
         name = line.replace(/^#+\s*/, '').trim();
         break;
       }
-      
+
       // Stop if we hit another code block or empty lines followed by content
-      if (line.startsWith('```') || (line === '' && i > 0 && lines[i-1].trim() === '')) {
+      if (/^(```|~~~)/.test(line) || (line === '' && i > 0 && lines[i-1].trim() === '')) {
         break;
       }
     }
-    
-    diagrams.push({
+
+    // Blank lines trimmed from the top of the code move its first line down
+    const leadingLines = block.code.slice(0, block.code.length - block.code.trimStart().length).split('\n').length - 1;
+    return {
       type,
       code,
       name,
+      line: lineOf(block.start) + leadingLines + 1,
       position: {
-        start: match.index,
-        end: match.index + match[0].length
+        start: block.blockStart,
+        end: block.blockEnd
       }
-    });
-  }
-  
-  return diagrams;
+    };
+  });
 }
 
-function detectDiagramType(code: string): string {
-  const firstLine = code.split('\n')[0].trim().toLowerCase();
-  
-  if (firstLine.includes('graph') || firstLine.includes('flowchart')) {
-    return 'flowchart';
-  } else if (firstLine.includes('sequencediagram')) {
-    return 'sequence';
-  } else if (firstLine.includes('classDiagram')) {
-    return 'class';
-  } else if (firstLine.includes('stateDiagram')) {
-    return 'state';
-  } else if (firstLine.includes('erDiagram')) {
-    return 'er';
-  } else if (firstLine.includes('gantt')) {
-    return 'gantt';
-  } else if (firstLine.includes('pie')) {
-    return 'pie';
-  }
-  
-  return 'unknown';
+// The registered diagram type, such as 'flowchart' or 'sequence', or 'unknown'
+export function detectDiagramType(code: string): string {
+  return findDiagramConverter(code)?.type ?? 'unknown';
+}
+
+export function isSupportedDiagram(code: string): boolean {
+  return findDiagramConverter(code) !== undefined;
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+/**
+ * Mermaid's CSS-like style syntax (classDef, style, linkStyle) and its
+ * translation into React Flow node and edge styles.
+ * Format: fill:#f96,stroke:#333,stroke-width:4px
+ */
+
+import * as React from 'react';
+
+// Property name as written in Mermaid -> raw value
+export type MermaidStyle = Record<string, string>;
+
+export function parseStyleDeclarations(text: string): MermaidStyle {
+  const style: MermaidStyle = {};
+  let depth = 0;
+  let current = '';
+
+  const flush = () => {
+    const colon = current.indexOf(':');
+    if (colon > 0) {
+      const property = current.slice(0, colon).trim().toLowerCase();
+      const value = current.slice(colon + 1).trim();
+      if (property && value) {
+        style[property] = value;
+      }
+    }
+    current = '';
+  };
+
+  // Commas inside rgb(...) and friends don't separate declarations
+  for (const char of text.trim().replace(/;$/, '')) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+  flush();
+
+  return style;
+}
+
+function toPixels(value: string): string {
+  return /^\d+(\.\d+)?$/.test(value) ? `${value}px` : value;
+}
+
+// Properties that read the same in Mermaid and CSS
+const PASSTHROUGH_PROPERTIES: Record<string, keyof React.CSSProperties> = {
+  'color': 'color',
+  'opacity': 'opacity',
+  'font-size': 'fontSize',
+  'font-weight': 'fontWeight',
+  'font-style': 'fontStyle',
+  'font-family': 'fontFamily',
+};
+
+export function toNodeStyle(style: MermaidStyle): React.CSSProperties {
+  const css: Record<string, string> = {};
+
+  Object.entries(style).forEach(([property, value]) => {
+    switch (property) {
+      case 'fill':
+        css.backgroundColor = value;
+        break;
+      case 'stroke':
+        css.borderColor = value;
+        css.borderStyle = css.borderStyle ?? 'solid';
+        break;
+      case 'stroke-width':
+        css.borderWidth = toPixels(value);
+        css.borderStyle = css.borderStyle ?? 'solid';
+        break;
+      case 'stroke-dasharray':
+        css.borderStyle = 'dashed';
+        break;
+      case 'rx':
+      case 'ry':
+        css.borderRadius = toPixels(value);
+        break;
+      default:
+        if (PASSTHROUGH_PROPERTIES[property]) {
+          css[PASSTHROUGH_PROPERTIES[property]] = value;
+        }
+    }
+  });
+
+  return css as React.CSSProperties;
+}
+
+export function toEdgeStyle(style: MermaidStyle): { style: React.CSSProperties; labelColor?: string } {
+  const css: Record<string, string> = {};
+
+  Object.entries(style).forEach(([property, value]) => {
+    switch (property) {
+      case 'stroke':
+        css.stroke = value;
+        break;
+      case 'stroke-width':
+        css.strokeWidth = value.replace(/px$/, '');
+        break;
+      case 'stroke-dasharray':
+        css.strokeDasharray = value;
+        break;
+      case 'opacity':
+        css.opacity = value;
+        break;
+    }
+  });
+
+  return { style: css as React.CSSProperties, labelColor: style.color };
+}
@@ -0,0 +1,275 @@
+import { describe, expect, it } from 'vitest';
+import { convertMermaidToReactFlow, findDiagramConverter, registerDiagramConverter } from './mermaidToReactFlow';
+
+const DIRECTED = `A --> B
+    subgraph S
+      direction LR
+      C --> D
+    end`;
+
+describe('convertMermaidToReactFlow', () => {
+  it('finds the converter from the declaration', () => {
+    expect(findDiagramConverter('flowchart TD\n  A')?.type).toBe('flowchart');
+    expect(findDiagramConverter('%% comment\nsequenceDiagram\n  A->>B: x')?.type).toBe('sequence');
+    expect(findDiagramConverter('stateDiagram-v2\n  [*] --> A')?.type).toBe('state');
+    expect(findDiagramConverter('journey\n  title x')).toBeUndefined();
+  });
+
+  it('converts diagram types registered alongside the built-in ones', async () => {
+    registerDiagramConverter({
+      type: 'timeline',
+      detect: declaration => /^timeline\b/.test(declaration),
+      parse: code => ({ events: code.split('\n').slice(1).map(line => line.trim()), diagnostics: [] }),
+      layout: parsed => ({
+        nodes: parsed.events.map((label: string, index: number) => ({
+          id: `event-${index}`,
+          position: { x: index * 200, y: 0 },
+          data: { label },
+        })),
+        edges: [],
+      }),
+    });
+    const { nodes, diagnostics } = await convertMermaidToReactFlow('timeline\n  2023\n  2024');
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => node.data.label)).toEqual(['2023', '2024']);
+  });
+
+  it('lays flowcharts out in their declared direction', async () => {
+    const handles = async (direction: string) => {
+      const { nodes } = await convertMermaidToReactFlow(`flowchart ${direction}\n    ${DIRECTED}`);
+      const a = nodes.find(node => node.id === 'A')!;
+      const b = nodes.find(node => node.id === 'B')!;
+      return {
+        source: a.sourcePosition,
+        target: a.targetPosition,
+        dx: Math.sign(b.position.x - a.position.x),
+        dy: Math.sign(b.position.y - a.position.y),
+      };
+    };
+
+    expect(await handles('TD')).toEqual({ source: 'bottom', target: 'top', dx: 0, dy: 1 });
+    expect(await handles('LR')).toEqual({ source: 'right', target: 'left', dx: 1, dy: 0 });
+    expect(await handles('RL')).toEqual({ source: 'left', target: 'right', dx: -1, dy: 0 });
+    expect(await handles('BT')).toEqual({ source: 'top', target: 'bottom', dx: 0, dy: -1 });
+  });
+
+  it('lays a subgraph out in its own direction', async () => {
+    const { nodes } = await convertMermaidToReactFlow(`flowchart TD\n    ${DIRECTED}`);
+    const c = nodes.find(node => node.id === 'C')!;
+    const d = nodes.find(node => node.id === 'D')!;
+    expect(c.sourcePosition).toBe('right');
+    expect(d.position.x).toBeGreaterThan(c.position.x);
+    expect(d.position.y).toBe(c.position.y);
+  });
+
+  it('draws shapes with an SVG outline in a transparent box sized for the shape', async () => {
+    const { nodes } = await convertMermaidToReactFlow('flowchart TD\n  A[Box]\n  B{Choice}\n  C[(Base)]');
+    expect(nodes.map(node => [node.id, node.data.shape, node.data.outlined, node.style?.backgroundColor])).toEqual([
+      ['A', 'rect', false, expect.not.stringMatching('transparent')],
+      ['B', 'diamond', true, 'transparent'],
+      ['C', 'cylinder', true, 'transparent'],
+    ]);
+    // The outline keeps the shape's colours, so a diamond isn't drawn as its bounding box
+    expect(nodes[1].data.colors).toEqual({ backgroundColor: '#FFF3E0', borderColor: '#F57C00' });
+    expect(nodes[1].style).toMatchObject({ width: 140, height: 80 });
+  });
+
+  it('applies classDef, style and linkStyle to nodes and edges', async () => {
+    const { nodes, edges } = await convertMermaidToReactFlow(
+      'flowchart TD\n  A:::hot --> B\n  B --> C\n  classDef hot fill:#f96,stroke:#333\n  style C fill:#0f0\n  linkStyle 1 stroke:#00f'
+    );
+    expect(nodes.map(node => [node.id, node.className, node.style?.backgroundColor])).toEqual([
+      ['A', 'hot', '#f96'],
+      ['B', undefined, '#E3F2FD'],
+      ['C', undefined, '#0f0'],
+    ]);
+    expect(nodes[0].style?.borderColor).toBe('#333');
+    expect(edges.map(edge => edge.style?.stroke)).toEqual(['#1976D2', '#00f']);
+  });
+
+  it('nests subgraphs in their parent, parents first, each sized to hold its children', async () => {
+    const { nodes } = await convertMermaidToReactFlow(
+      'flowchart TB\n  subgraph outer [Outer box]\n    A --> B\n    subgraph inner\n      C\n    end\n  end\n  B --> C\n  C --> D'
+    );
+    expect(nodes.map(node => [node.id, node.type, node.parentNode])).toEqual([
+      ['outer', 'group', undefined],
+      ['inner', 'group', 'outer'],
+      ['A', 'custom', 'outer'],
+      ['B', 'custom', 'outer'],
+      ['C', 'custom', 'inner'],
+      ['D', 'custom', undefined],
+    ]);
+
+    const outer = nodes[0];
+    const inner = nodes[1];
+    expect(inner.extent).toBe('parent');
+    expect(inner.position.x + (inner.style?.width as number)).toBeLessThanOrEqual(outer.style?.width as number);
+    expect(inner.position.y + (inner.style?.height as number)).toBeLessThanOrEqual(outer.style?.height as number);
+  });
+
+  it('connects edges that name a subgraph to its container instead of a new node', async () => {
+    const { nodes, edges } = await convertMermaidToReactFlow(
+      'flowchart LR\n  A --> S\n  subgraph S [Group]\n    B\n  end\n  S --> T\n  subgraph T\n    C\n  end'
+    );
+    expect(nodes.map(node => [node.id, node.type])).toEqual([
+      ['S', 'group'],
+      ['T', 'group'],
+      ['A', 'custom'],
+      ['B', 'custom'],
+      ['C', 'custom'],
+    ]);
+    expect(edges.map(edge => [edge.source, edge.target])).toEqual([
+      ['A', 'S'],
+      ['S', 'T'],
+    ]);
+
+    // The layout places the containers along the flow
+    const [s, t, a] = nodes;
+    expect(a.position.x).toBeLessThan(s.position.x);
+    expect(s.position.x).toBeLessThan(t.position.x);
+  });
+
+  it('draws link ends: arrows as React Flow markers, circles and crosses as custom markers', async () => {
+    const { edges } = await convertMermaidToReactFlow('flowchart LR\n  A <--> B\n  B o--x C\n  C ~~~ D');
+    expect(edges.map(edge => [edge.data.markers, edge.hidden])).toEqual([
+      [{ start: 'arrow', end: 'arrow' }, false],
+      [{ start: 'circle', end: 'cross' }, false],
+      [{ start: 'none', end: 'none' }, true],
+    ]);
+    expect(edges[0].markerStart).toMatchObject({ type: 'arrowclosed' });
+    expect(edges[0].markerEnd).toMatchObject({ type: 'arrowclosed' });
+    expect(edges[1].markerStart).toBe('edge-B-C-1-start');
+    expect(edges[1].markerEnd).toBe('edge-B-C-1-end');
+    expect(edges[2].markerEnd).toBeUndefined();
+  });
+
+  it('frames sequence blocks around the rows and participants they cover', async () => {
+    const { nodes, diagnostics } = await convertMermaidToReactFlow(`sequenceDiagram
+    participant A
+    participant B
+    participant C
+    loop Every minute
+      A->>B: ping
+      alt ok
+        B-->>A: pong
+      else failed
+        B->>C: alert
+      end
+    end
+    rect rgb(200, 220, 255)
+      A->>B: hi
+    end
+    end`);
+    const frames = nodes.filter(node => node.type === 'sequenceFrame');
+    expect(frames.map(frame => [frame.id, frame.data.kind, frame.data.label, frame.data.color])).toEqual([
+      ['fragment_0', 'loop', 'Every minute', undefined],
+      ['fragment_1', 'alt', 'ok', undefined],
+      ['fragment_2', 'rect', '', 'rgb(200, 220, 255)'],
+    ]);
+    expect(frames[1].data.sections).toEqual([{ label: 'failed', offset: expect.any(Number) }]);
+
+    const [loop, alt, rect] = frames;
+    const right = (frame: typeof loop) => frame.position.x + Number(frame.style?.width);
+    const bottom = (frame: typeof loop) => frame.position.y + Number(frame.style?.height);
+    expect(alt.position.x).toBeGreaterThan(loop.position.x);
+    expect(alt.position.y).toBeGreaterThan(loop.position.y);
+    expect(right(alt)).toBeLessThan(right(loop));
+    expect(bottom(alt)).toBeLessThan(bottom(loop));
+    // The rect only covers A and B, so it stops short of C's column
+    expect(right(rect)).toBeLessThan(right(alt));
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', line: 16, message: 'unexpected `end`, ignored' }),
+    ]);
+  });
+
+  it('draws sequence actors, boxes, activations, notes and numbered messages', async () => {
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(`sequenceDiagram
+    box Aqua Team
+    actor Alice
+    participant Bob as Robert
+    end
+    autonumber 10 5
+    Alice->>+Bob: hello
+    Bob->>+Bob: think
+    Bob-->>-Alice: hi
+    deactivate Bob
+    note over Alice,Bob: done
+    deactivate Alice`);
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    expect(byId.get('header_Alice')?.type).toBe('sequenceActor');
+    expect(byId.get('header_Bob')?.data.label).toBe('Robert');
+    expect(byId.get('box_0')?.data).toEqual({ kind: 'box', label: 'Team', color: 'Aqua' });
+    expect(byId.get('note_0')?.data).toEqual({ label: 'done', shape: 'note' });
+
+    // The nested activation is offset sideways and ends with the outer one
+    const outer = byId.get('activation_0')!;
+    const inner = byId.get('activation_1')!;
+    expect(inner.position.x).toBeGreaterThan(outer.position.x);
+    expect(inner.position.y).toBeGreaterThan(outer.position.y);
+    expect(inner.position.y + Number(inner.style?.height)).toBe(outer.position.y + Number(outer.style?.height));
+
+    expect(edges.filter(edge => edge.label).map(edge => edge.label)).toEqual(['10. hello', '15. think', '20. hi']);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', line: 12, message: '`Alice` is not active, ignored' }),
+    ]);
+  });
+
+  it('starts created participants at their creating message and ends destroyed ones', async () => {
+    const { nodes, edges } = await convertMermaidToReactFlow(`sequenceDiagram
+    participant Alice
+    Alice->>Alice: wake
+    create participant Carl
+    Alice->>Carl: new
+    destroy Carl
+    Alice->>Carl: bye
+    Alice->>Alice: sleep`);
+    const header = nodes.find(node => node.id === 'header_Carl')!;
+    expect(header.position.y).toBeGreaterThan(nodes.find(node => node.id === 'header_Alice')!.position.y);
+    expect(edges.find(edge => edge.label === 'new')?.target).toBe('header_Carl');
+    // Carl's lifeline stops at the message that destroys it, Alice's runs on
+    const carlPoints = nodes.filter(node => node.id.startsWith('lifeline_Carl_')).map(node => node.id);
+    const alicePoints = nodes.filter(node => node.id.startsWith('lifeline_Alice_')).map(node => node.id);
+    expect(carlPoints[carlPoints.length - 1]).toBe('lifeline_Carl_3');
+    expect(alicePoints).toHaveLength(6);
+  });
+
+  it('reads every message arrow and loops messages a participant sends itself', async () => {
+    const { edges } = await convertMermaidToReactFlow(`sequenceDiagram
+    A->B: solid
+    A-->B: dotted
+    A->>B: arrow
+    A-xB: lost
+    A-)B: async
+    A<<->>B: both
+    A->>A: self`);
+    const messages = edges.filter(edge => edge.data?.markers);
+    expect(messages.map(edge => [edge.label, edge.type, edge.data.markers])).toEqual([
+      ['solid', 'straight', { start: 'none', end: 'none' }],
+      ['dotted', 'straight', { start: 'none', end: 'none' }],
+      ['arrow', 'straight', { start: 'none', end: 'arrow' }],
+      ['lost', 'straight', { start: 'none', end: 'cross' }],
+      ['async', 'straight', { start: 'none', end: 'async' }],
+      ['both', 'straight', { start: 'arrow', end: 'arrow' }],
+      ['self', 'selfMessage', { start: 'none', end: 'arrow' }],
+    ]);
+    expect(messages[1].style?.strokeDasharray).toBeDefined();
+    expect(messages[0].style?.strokeDasharray).toBeUndefined();
+    expect(messages[3].markerEnd).toBe(`${messages[3].id}-end`);
+    expect(messages[4].markerEnd).toEqual(expect.objectContaining({ type: 'arrow' }));
+  });
+
+  it('reports what it could not read instead of failing', async () => {
+    const { nodes, diagnostics } = await convertMermaidToReactFlow('flowchart TD\n  A --> B\n  C[oops');
+    expect(nodes.map(node => node.id)).toEqual(['A', 'B', 'C']);
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: 'error', line: 3 })]);
+  });
+
+  it('reports diagram types it cannot convert', async () => {
+    const { nodes, diagnostics } = await convertMermaidToReactFlow('journey\n  title x');
+    expect(nodes).toEqual([]);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', line: 1, message: 'unrecognised diagram type' }),
+    ]);
+  });
+});
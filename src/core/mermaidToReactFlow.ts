@@ -1,61 +1,163 @@
-import * as React from 'react';
-import { Node, Edge, MarkerType, Position } from 'reactflow';
-import mermaid from 'mermaid';
+import type * as React from 'react';
+import { Node, Edge, MarkerType } from 'reactflow';
 import dagre from 'dagre';
+import {
+  parseFlowchart,
+  FlowDirection,
+  FlowchartLink,
+  FlowchartLinkEnd,
+  FlowchartNodeRef,
+  FlowchartStatement,
+  FlowchartClassStatement,
+  FlowchartStyleStatement,
+  FlowchartLinkStyleStatement
+} from './flowchartParser';
+import { ConversionDiagnostic, createDiagnostic, createLineDiagnostic } from './diagnostics';
+import { MermaidStyle, toNodeStyle, toEdgeStyle } from './mermaidStyles';
+import { getHandlePositions } from './diagramLayout';
+import { findDiagramConverter, registerDiagramConverter } from './diagramRegistry';
+import { parseClassDiagram, layoutClassDiagram } from './classDiagram';
+import { parseErDiagram, layoutErDiagram } from './erDiagram';
+import { parseGanttDiagram, layoutGanttDiagram } from './ganttDiagram';
+import { parseGitGraph, layoutGitGraph } from './gitGraph';
+import { parseMindmap, layoutMindmap, MindmapLayout } from './mindmapDiagram';
+import { parsePieChart, layoutPieChart } from './pieChart';
+import { parseQuadrantChart, layoutQuadrantChart } from './quadrantChart';
+import { parseStateDiagram } from './stateDiagram';
+
+export { registerDiagramConverter, findDiagramConverter, getDiagramConverters } from './diagramRegistry';
+export type { DiagramConverter, ParsedDiagram, RegisteredDiagramConverter } from './diagramRegistry';
 
 export interface ReactFlowData {
   nodes: Node[];
   edges: Edge[];
 }
 
-mermaid.initialize({ 
-  startOnLoad: false,
-  theme: 'default',
-  flowchart: {
-    htmlLabels: false,
-    curve: 'linear'
-  }
-});
+export interface ConversionResult extends ReactFlowData {
+  diagnostics: ConversionDiagnostic[];
+}
+
+// Choices the viewer offers for diagram types with more than one layout
+export interface ConversionOptions {
+  mindmapLayout?: MindmapLayout;
+}
 
-interface MermaidNode {
+export interface MermaidNode {
   id: string;
   label: string;
   shape: string;
   subgraph?: string;
+  classes?: string[];
+  style?: MermaidStyle;
+  inlineStyle?: MermaidStyle; // From `style` statements alone; style also has the classes merged in
   metadata?: {
     source?: string;
     target?: string;
     participantOrder?: number;
     lifelineIndex?: number;
     participantId?: string;
+    createdRow?: number;
+    fragment?: SequenceFragment;
+    activation?: SequenceActivation;
+    note?: SequenceNote;
+    box?: SequenceBox;
   };
 }
 
-interface MermaidEdge {
+export interface MermaidEdge {
   source: string;
   target: string;
   label?: string;
   type: string;
+  markerStart?: EdgeEnd;
+  markerEnd?: EdgeEnd;
+  length?: number; // Minimum number of ranks between source and target
+  style?: MermaidStyle;
 }
 
-interface SubgraphInfo {
+export interface SubgraphInfo {
   id: string;
   title: string;
   nodes: string[];
+  direction?: FlowDirection;
+  classes?: string[];
+  style?: MermaidStyle;
+  inlineStyle?: MermaidStyle;
+  parent?: string; // Enclosing subgraph, if nested
 }
 
 interface SubgraphLayout {
   id: string;
   title: string;
+  // Centre of each direct child (node or nested subgraph), relative to the container
   nodes: Map<string, { x: number; y: number; width: number; height: number }>;
   width: number;
   height: number;
   position?: { x: number; y: number };
 }
 
+// Flowchart link ends, plus the open arrowhead of asynchronous sequence messages
+type EdgeEnd = FlowchartLinkEnd | 'async';
+
 const SUBGRAPH_HEADER_HEIGHT = 50;
 const SUBGRAPH_PADDING = 30;
 
+// Subgraph ids from the given one outwards to the top level
+function getSubgraphAncestry(subgraphId: string | undefined, subgraphMap: Map<string, SubgraphInfo>): string[] {
+  const ancestry: string[] = [];
+  let current = subgraphId ? subgraphMap.get(subgraphId) : undefined;
+  while (current && !ancestry.includes(current.id)) {
+    ancestry.push(current.id);
+    current = current.parent ? subgraphMap.get(current.parent) : undefined;
+  }
+  return ancestry;
+}
+
+// The node or subgraph an edge endpoint refers to, or the nested subgraph that stands in for it,
+// among a container's direct children (container undefined = top level); undefined if the
+// endpoint is not inside the container
+function getRepresentative(
+  endpoint: string,
+  containerId: string | undefined,
+  nodeMap: Map<string, MermaidNode>,
+  subgraphMap: Map<string, SubgraphInfo>
+): string | undefined {
+  const node = nodeMap.get(endpoint);
+  const ancestry = node
+    ? [node.id, ...getSubgraphAncestry(node.subgraph, subgraphMap)]
+    : getSubgraphAncestry(endpoint, subgraphMap);
+  const index = containerId ? ancestry.indexOf(containerId) : ancestry.length;
+  return index > 0 ? ancestry[index - 1] : undefined;
+}
+
+// Nested subgraphs without their own direction inherit the nearest enclosing one
+function getSubgraphDirection(
+  subgraphId: string | undefined,
+  subgraphMap: Map<string, SubgraphInfo>,
+  fallback: FlowDirection
+): FlowDirection {
+  for (const id of getSubgraphAncestry(subgraphId, subgraphMap)) {
+    const direction = subgraphMap.get(id)?.direction;
+    if (direction) return direction;
+  }
+  return fallback;
+}
+
+// Shapes that CustomNode draws as an SVG outline; their React Flow node stays transparent
+const OUTLINED_SHAPES = new Set([
+  'diamond',
+  'double-circle',
+  'hexagon',
+  'subroutine',
+  'cylinder',
+  'asymmetric',
+  'parallelogram',
+  'parallelogram-alt',
+  'trapezoid',
+  'trapezoid-alt',
+  'choice',
+]);
+
 function cleanLabel(label: string): string {
   return label
     .replace(/<br\s*\/?>/gi, '\n')
@@ -63,13 +165,25 @@ function cleanLabel(label: string): string {
     .trim();
 }
 
-function getNodeShape(nodeDefinition: string): string {
-  if (nodeDefinition.includes('{') && nodeDefinition.includes('}')) return 'diamond';
-  if (nodeDefinition.includes('((') && nodeDefinition.includes('))')) return 'circle';
-  if (nodeDefinition.includes('([') && nodeDefinition.includes('])')) return 'stadium';
-  if (nodeDefinition.includes('[') && nodeDefinition.includes(']')) return 'rect';
-  if (nodeDefinition.includes('(') && nodeDefinition.includes(')')) return 'round';
-  return 'rect';
+// Canonical operator for a link, regardless of its length and end markers
+function getEdgeType(link: FlowchartLink): string {
+  const directed = link.end !== 'none';
+  switch (link.stroke) {
+    case 'thick':
+      return directed ? '==>' : '===';
+    case 'dotted':
+      return directed ? '-.->' : '-.-';
+    case 'invisible':
+      return '~~~';
+    default:
+      return directed ? '-->' : '---';
+  }
+}
+
+// Parallel edges between the same layout nodes keep the longest requested length
+function setLayoutEdge(g: dagre.graphlib.Graph, source: string, target: string, length: number = 1) {
+  const existing = g.hasEdge(source, target) ? g.edge(source, target).minlen : 1;
+  g.setEdge(source, target, { minlen: Math.max(length, existing) });
 }
 
 interface SequenceMessage {
@@ -77,86 +191,343 @@ interface SequenceMessage {
   target: string;
   label: string;
   arrowType: string;
-  index: number;
+  index: number; // Lifeline row, counting fragment headers, dividers and notes
 }
 
-function parseSequenceDiagram(code: string): { nodes: MermaidNode[], edges: MermaidEdge[] } {
+// A loop/alt/opt/par/critical/break/rect block around a range of lifeline rows
+export interface SequenceFragment {
+  kind: string;
+  label: string;
+  startRow: number; // Row of the header
+  endRow: number; // Last row inside the block
+  sections: Array<{ label: string; row: number }>; // else/and/option dividers
+  participants: string[];
+  innerDepth: number; // How many fragments are nested inside, for the frame padding
+  color?: string; // rect background
+}
+
+// A period in which a participant is active, drawn as a bar on its lifeline
+export interface SequenceActivation {
+  startRow: number;
+  endRow: number;
+  depth: number; // Nested activations of the same participant are offset sideways
+}
+
+export interface SequenceNote {
+  placement: 'left' | 'right' | 'over';
+  participants: string[];
+  row: number;
+}
+
+// A box drawn behind a group of participants
+export interface SequenceBox {
+  label: string;
+  color?: string;
+  participants: string[];
+}
+
+const SEQUENCE_FRAGMENT_KINDS = /^(loop|alt|opt|par|critical|break|rect)\b\s*(.*)$/;
+const SEQUENCE_FRAGMENT_SECTIONS: Record<string, string> = { alt: 'else', par: 'and', critical: 'option' };
+// Message arrows: -> and --> have no head, ->> a filled one, -x a cross (lost message),
+// -) an open async head; <<->> has heads at both ends. A second dash makes the line dotted.
+const SEQUENCE_MESSAGE = /^(\w+)\s*(<<--?>>|--?(?:>>|>|x|\)))\s*([+-]?)\s*(\w+)\s*:\s*(.*)$/;
+const SEQUENCE_ARROW_HEADS: Record<string, EdgeEnd> = {
+  '>': 'none',
+  '>>': 'arrow',
+  'x': 'cross',
+  ')': 'async',
+};
+
+const SEQUENCE_PARTICIPANT = /^(create\s+)?(participant|actor)\s+(\w+)(?:\s+as\s+(.+))?$/i;
+
+// `box Aqua Team` colours the box; without a recognisable colour the whole text is the label
+const SEQUENCE_BOX_COLOR = /^(rgba?\([^)]*\)|hsla?\([^)]*\)|#[0-9a-f]{3,8}|transparent|aqua|black|blue|fuchsia|gray|grey|green|lightblue|lightgreen|lightgrey|lightyellow|lime|maroon|navy|olive|orange|pink|purple|red|silver|teal|white|yellow)(?:\s+(.*))?$/i;
+
+function parseSequenceDiagram(code: string): {
+  nodes: MermaidNode[],
+  edges: MermaidEdge[],
+  diagnostics: ConversionDiagnostic[]
+} {
   const nodes: MermaidNode[] = [];
   const edges: MermaidEdge[] = [];
+  const diagnostics: ConversionDiagnostic[] = [];
   const participantOrder: string[] = []; // Array to maintain strict order
   const participantLabels = new Map<string, string>();
+  const actors = new Set<string>();
   const messages: SequenceMessage[] = [];
+  const fragments: SequenceFragment[] = [];
+  const openFragments: Array<{ fragment: SequenceFragment; line: number }> = [];
+  const activations: Array<SequenceActivation & { participant: string }> = [];
+  const openActivations = new Map<string, SequenceActivation[]>();
+  const notes: Array<SequenceNote & { text: string }> = [];
+  const boxes: SequenceBox[] = [];
+  const createdRows = new Map<string, number>();
+  const destroyedRows = new Map<string, number>();
 
-  const lines = code.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('%%'));
-
-  // First pass: extract participants in order
-  for (const line of lines) {
-    if (line.toLowerCase().startsWith('participant ')) {
-      const match = line.match(/participant\s+(\w+)(?:\s+as\s+(.+))?/i);
-      if (match) {
-        const id = match[1];
-        const label = match[2] || id;
-        if (!participantLabels.has(id)) {
-          participantOrder.push(id);
-          participantLabels.set(id, label);
-        }
+  const sourceLines = code.split('\n');
+  const lines = sourceLines
+    .map((text, index) => ({ line: text.trim(), index }))
+    .filter(({ line }) => line && !line.startsWith('%%'));
+
+  const addParticipant = (id: string, label: string = id) => {
+    if (!participantLabels.has(id)) {
+      participantOrder.push(id);
+      participantLabels.set(id, label);
+    }
+  };
+
+  // First pass: extract participants in order, and the boxes that group them
+  let openBox: SequenceBox | null = null;
+  for (const { line } of lines) {
+    const boxMatch = line.match(/^box\b\s*(.*)$/);
+    if (boxMatch) {
+      const colorMatch = boxMatch[1].match(SEQUENCE_BOX_COLOR);
+      openBox = {
+        label: (colorMatch ? colorMatch[2] ?? '' : boxMatch[1]).trim(),
+        color: colorMatch?.[1],
+        participants: []
+      };
+      boxes.push(openBox);
+      continue;
+    }
+    if (openBox && line === 'end') {
+      openBox = null;
+      continue;
+    }
+
+    const match = line.match(SEQUENCE_PARTICIPANT);
+    if (match) {
+      const [, , kind, id, label] = match;
+      addParticipant(id, label?.trim() || id);
+      if (kind.toLowerCase() === 'actor') {
+        actors.add(id);
       }
+      openBox?.participants.push(id);
     }
   }
 
-  // Second pass: extract messages and auto-discover participants
-  let messageIndex = 0;
-  for (const line of lines) {
-    // Match various arrow types: ->>, -->, -), ->
-    const arrowMatch = line.match(/(\w+)\s*(--?>>?|-\)|->>?)\s*(\w+)\s*:\s*(.+)/);
+  const activate = (id: string, startRow: number) => {
+    const stack = openActivations.get(id) ?? [];
+    const activation = { participant: id, startRow, endRow: startRow, depth: stack.length };
+    stack.push(activation);
+    openActivations.set(id, stack);
+    activations.push(activation);
+  };
+
+  const deactivate = (id: string, endRow: number, lineIndex: number) => {
+    const activation = openActivations.get(id)?.pop();
+    if (activation) {
+      activation.endRow = Math.max(activation.startRow, endRow);
+    } else {
+      diagnostics.push(createLineDiagnostic('warning', sourceLines, lineIndex, `\`${id}\` is not active, ignored`));
+    }
+  };
+
+  // Fragments span every participant that takes part in them
+  const addToOpenFragments = (ids: string[]) => {
+    openFragments.forEach(({ fragment }) => {
+      ids.forEach(id => {
+        if (!fragment.participants.includes(id)) fragment.participants.push(id);
+      });
+    });
+  };
+
+  // Second pass: extract messages, notes and blocks and auto-discover participants.
+  // Each message, note, block header and divider takes a row of the lifelines.
+  let row = 0;
+  let autonumber: { next: number; step: number } | null = null;
+  let insideBox = false;
+  for (const { line, index } of lines) {
+    if (line === 'sequenceDiagram') {
+      continue;
+    }
+
+    // Boxes and their participants were read in the first pass
+    if (/^box\b/.test(line)) {
+      insideBox = true;
+      continue;
+    }
+    if (insideBox) {
+      if (line === 'end') insideBox = false;
+      continue;
+    }
+
+    const participantMatch = line.match(SEQUENCE_PARTICIPANT);
+    if (participantMatch) {
+      // A created participant's header appears at the message that creates it
+      if (participantMatch[1]) {
+        createdRows.set(participantMatch[3], row);
+      }
+      continue;
+    }
+
+    const destroyMatch = line.match(/^destroy\s+(\w+)$/);
+    if (destroyMatch) {
+      // The lifeline ends at the next message, which destroys the participant
+      destroyedRows.set(destroyMatch[1], row);
+      continue;
+    }
+
+    const autonumberMatch = line.match(/^autonumber(?:\s+(off)|\s+(\d+)(?:\s+(\d+))?)?$/);
+    if (autonumberMatch) {
+      const [, off, start, step] = autonumberMatch;
+      autonumber = off ? null : { next: Number(start ?? 1), step: Number(step ?? 1) };
+      continue;
+    }
+
+    // activate/deactivate apply from and to the preceding message
+    const activationMatch = line.match(/^(activate|deactivate)\s+(\w+)$/);
+    if (activationMatch) {
+      const [, keyword, id] = activationMatch;
+      if (keyword === 'activate') {
+        activate(id, Math.max(0, row - 1));
+      } else {
+        deactivate(id, row - 1, index);
+      }
+      continue;
+    }
+
+    const noteMatch = line.match(/^note\s+(left of|right of|over)\s+(\w+(?:\s*,\s*\w+)?)\s*:\s*(.*)$/i);
+    if (noteMatch) {
+      const [, placement, ids, text] = noteMatch;
+      const participants = ids.split(',').map(id => id.trim());
+      participants.forEach(id => addParticipant(id));
+      addToOpenFragments(participants);
+      notes.push({
+        placement: placement.toLowerCase().split(' ')[0] as SequenceNote['placement'],
+        participants,
+        row: row++,
+        text: text.replace(/<br\s*\/?>/gi, '\n')
+      });
+      continue;
+    }
+
+    const fragmentMatch = line.match(SEQUENCE_FRAGMENT_KINDS);
+    if (fragmentMatch) {
+      const [, kind, text] = fragmentMatch;
+      const fragment: SequenceFragment = {
+        kind,
+        label: kind === 'rect' ? '' : text.trim(),
+        startRow: row,
+        endRow: row,
+        sections: [],
+        participants: [],
+        innerDepth: 0,
+        color: kind === 'rect' ? text.trim() || undefined : undefined
+      };
+      fragments.push(fragment);
+      openFragments.push({ fragment, line: index });
+      // A rect only tints the background, so it needs no header row
+      if (kind !== 'rect') row++;
+      continue;
+    }
+
+    const sectionMatch = line.match(/^(else|and|option)\b\s*(.*)$/);
+    if (sectionMatch) {
+      const current = openFragments[openFragments.length - 1]?.fragment;
+      if (current && SEQUENCE_FRAGMENT_SECTIONS[current.kind] === sectionMatch[1]) {
+        current.sections.push({ label: sectionMatch[2].trim(), row });
+        row++;
+      } else {
+        diagnostics.push(createLineDiagnostic(
+          'warning', sourceLines, index, `\`${sectionMatch[1]}\` outside a matching block, ignored`
+        ));
+      }
+      continue;
+    }
+
+    if (line === 'end') {
+      const closed = openFragments.pop();
+      if (!closed) {
+        diagnostics.push(createLineDiagnostic('warning', sourceLines, index, 'unexpected `end`, ignored'));
+        continue;
+      }
+      closed.fragment.endRow = Math.max(closed.fragment.startRow, row - 1);
+      const parent = openFragments[openFragments.length - 1]?.fragment;
+      if (parent) {
+        parent.innerDepth = Math.max(parent.innerDepth, closed.fragment.innerDepth + 1);
+      }
+      continue;
+    }
+
+    // +/- before the target (de)activates
+    const arrowMatch = line.match(SEQUENCE_MESSAGE);
     if (arrowMatch) {
-      const source = arrowMatch[1];
-      const arrowType = arrowMatch[2];
-      const target = arrowMatch[3];
-      const message = arrowMatch[4];
+      const [, source, arrowType, activation, target, message] = arrowMatch;
 
       // Auto-add participants if not explicitly declared
-      if (!participantLabels.has(source)) {
-        participantOrder.push(source);
-        participantLabels.set(source, source);
-      }
-      if (!participantLabels.has(target)) {
-        participantOrder.push(target);
-        participantLabels.set(target, target);
+      addParticipant(source);
+      addParticipant(target);
+      addToOpenFragments([source, target]);
+
+      let label = message;
+      if (autonumber) {
+        label = `${autonumber.next}. ${message}`;
+        autonumber.next += autonumber.step;
       }
 
       messages.push({
         source,
         target,
-        label: message,
+        label,
         arrowType,
-        index: messageIndex++
+        index: row
       });
+
+      // + activates the receiver, - deactivates the sender
+      if (activation === '+') {
+        activate(target, row);
+      } else if (activation === '-') {
+        deactivate(source, row, index);
+      }
+      row++;
+    } else {
+      const keyword = line.split(/\s+/)[0];
+      diagnostics.push(createLineDiagnostic(
+        'warning', sourceLines, index, `unsupported sequence syntax \`${keyword}\`, ignored`
+      ));
     }
   }
 
+  openFragments.forEach(({ fragment, line }) => {
+    diagnostics.push(createLineDiagnostic('error', sourceLines, line, `\`${fragment.kind}\` block is missing its \`end\``));
+    fragment.endRow = Math.max(fragment.startRow, row - 1);
+  });
+
+  // Activations left open run to the last row
+  openActivations.forEach(stack => stack.forEach(activation => {
+    activation.endRow = Math.max(activation.startRow, row - 1);
+  }));
+
   // Create header nodes for each participant in order
   participantOrder.forEach((id, order) => {
     const label = participantLabels.get(id) || id;
     nodes.push({
       id: `header_${id}`,
       label,
-      shape: 'rect',
+      shape: actors.has(id) ? 'actor' : 'rect',
       metadata: {
         participantOrder: order,
-        participantId: id
+        participantId: id,
+        createdRow: createdRows.get(id)
       }
     });
   });
 
-  // Create lifeline point nodes for each participant at each message index
-  const numPoints = messages.length + 2; // +2 for top and bottom
+  // Create lifeline point nodes for each participant at each message index.
+  // Created participants start below their header; destroyed ones end at the destroying message.
+  const numPoints = row + 2; // +2 for top and bottom
   participantOrder.forEach((id, order) => {
-    for (let i = 0; i < numPoints; i++) {
+    const createdRow = createdRows.get(id);
+    const destroyedRow = destroyedRows.get(id);
+    const first = createdRow !== undefined ? createdRow + 2 : 0;
+    const last = destroyedRow !== undefined ? destroyedRow + 1 : numPoints - 1;
+
+    for (let i = first; i <= last; i++) {
       nodes.push({
         id: `lifeline_${id}_${i}`,
         label: '',
-        shape: 'rect',
+        shape: destroyedRow !== undefined && i === last ? 'destroy' : 'rect',
         metadata: {
           participantOrder: order,
           lifelineIndex: i
@@ -164,7 +535,7 @@ function parseSequenceDiagram(code: string): { nodes: MermaidNode[], edges: Merm
       });
 
       // Connect consecutive lifeline points
-      if (i > 0) {
+      if (i > first) {
         edges.push({
           source: `lifeline_${id}_${i - 1}`,
           target: `lifeline_${id}_${i}`,
@@ -174,192 +545,240 @@ function parseSequenceDiagram(code: string): { nodes: MermaidNode[], edges: Merm
     }
 
     // Connect header to first lifeline point
-    edges.push({
-      source: `header_${id}`,
-      target: `lifeline_${id}_0`,
-      type: 'default'
+    if (last >= first) {
+      edges.push({
+        source: `header_${id}`,
+        target: `lifeline_${id}_${first}`,
+        type: 'default'
+      });
+    }
+  });
+
+  // Boxes come first so everything else is drawn on top of them
+  boxes.forEach((box, index) => {
+    nodes.push({
+      id: `box_${index}`,
+      label: box.label,
+      shape: 'rect',
+      metadata: { box }
     });
   });
 
-  // Create edges for messages
+  // Outer fragments come first so inner frames are drawn on top of them
+  fragments.forEach((fragment, index) => {
+    nodes.push({
+      id: `fragment_${index}`,
+      label: fragment.label,
+      shape: 'rect',
+      metadata: { fragment }
+    });
+  });
+
+  activations.forEach(({ participant, ...activation }, index) => {
+    nodes.push({
+      id: `activation_${index}`,
+      label: '',
+      shape: 'rect',
+      metadata: {
+        participantId: participant,
+        participantOrder: participantOrder.indexOf(participant),
+        activation
+      }
+    });
+  });
+
+  notes.forEach(({ text, ...note }, index) => {
+    nodes.push({
+      id: `note_${index}`,
+      label: text,
+      shape: 'note',
+      metadata: { note }
+    });
+  });
+
+  // Create edges for messages; a message creating a participant points at its header
   messages.forEach((msg) => {
     const edgeType = msg.arrowType.includes('--') ? 'dashed' : 'default';
     const lifelineIndex = msg.index + 1; // +1 because index 0 is the top point
+    const endpoint = (id: string) =>
+      createdRows.get(id) === msg.index ? `header_${id}` : `lifeline_${id}_${lifelineIndex}`;
+    const bidirectional = msg.arrowType.startsWith('<<');
 
     edges.push({
-      source: `lifeline_${msg.source}_${lifelineIndex}`,
-      target: `lifeline_${msg.target}_${lifelineIndex}`,
+      source: endpoint(msg.source),
+      target: endpoint(msg.target),
       label: msg.label,
-      type: edgeType
+      type: edgeType,
+      markerStart: bidirectional ? 'arrow' : 'none',
+      markerEnd: bidirectional ? 'arrow' : SEQUENCE_ARROW_HEADS[msg.arrowType.replace(/^-+/, '')]
     });
   });
 
-  return { nodes, edges };
+  return { nodes, edges, diagnostics };
 }
 
-function parseMermaidCode(code: string): { nodes: MermaidNode[], edges: MermaidEdge[], subgraphs: SubgraphInfo[] } {
-  // Check if this is a sequence diagram
-  if (code.trim().startsWith('sequenceDiagram')) {
-    const { nodes, edges } = parseSequenceDiagram(code);
-    return { nodes, edges, subgraphs: [] };
-  }
+export interface ParsedFlowchart {
+  nodes: MermaidNode[];
+  edges: MermaidEdge[];
+  subgraphs: SubgraphInfo[];
+  direction: FlowDirection;
+  diagnostics: ConversionDiagnostic[];
+}
 
+function parseFlowchartDiagram(code: string): ParsedFlowchart {
+  const { document, diagnostics } = parseFlowchart(code);
   const nodes: MermaidNode[] = [];
   const edges: MermaidEdge[] = [];
   const subgraphs: SubgraphInfo[] = [];
   const nodeMap = new Map<string, MermaidNode>();
 
-  // Remove comments and clean up the code
-  const cleanCode = code
-    .split('\n')
-    .map(line => line.trim())
-    .filter(line => line && !line.startsWith('%%'))
-    .join('\n');
-  
-  const lines = cleanCode.split('\n');
-  let currentSubgraph: string | null = null;
-  
-  // Process each line
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    // Handle subgraph start
-    const subgraphMatch = line.match(/^subgraph\s+([^\s]+)(?:\s*\[(.+)\])?/);
-    if (subgraphMatch) {
-      const [, subgraphId, subgraphTitle] = subgraphMatch;
-      currentSubgraph = subgraphId;
-      subgraphs.push({
-        id: subgraphId,
-        title: subgraphTitle || subgraphId,
-        nodes: []
-      });
-      continue;
-    }
-    
-    // Handle subgraph end
-    if (line === 'end') {
-      currentSubgraph = null;
-      continue;
+  // A node belongs to the subgraph it is first mentioned in; a later shape definition updates its label
+  const declareNode = (ref: FlowchartNodeRef, subgraph: SubgraphInfo | null) => {
+    const existing = nodeMap.get(ref.id);
+    if (existing && ref.classNames) {
+      existing.classes = [...(existing.classes ?? []), ...ref.classNames];
     }
-    
-    // Parse edge connections with more patterns
-    const edgePatterns = [
-      // A[Label] -->|EdgeLabel| B{Label}
-      /([A-Za-z0-9_]+)(?:[\[\(\{][^\]\)\}]*[\]\)\}])?\s*(-->|->|---|===>|==>|-\.-|:-:|::|~|\.\.\.|===)\s*(?:\|([^|]+)\|)?\s*([A-Za-z0-9_]+)(?:[\[\(\{][^\]\)\}]*[\]\)\}])?/,
-      // Simpler pattern: A --> B
-      /([A-Za-z0-9_]+)\s*(-->|->|---|===>|==>|-\.-|:-:|::|~|\.\.\.|===)\s*([A-Za-z0-9_]+)/
-    ];
-    
-    let edgeMatch = null;
-    for (const pattern of edgePatterns) {
-      edgeMatch = line.match(pattern);
-      if (edgeMatch) break;
-    }
-    
-    if (edgeMatch) {
-      const sourceId = edgeMatch[1];
-      const edgeType = edgeMatch[2];
-      const edgeLabel = edgeMatch[3] || '';
-      const targetId = edgeMatch[4] || edgeMatch[3];
-      
-      // Extract node definitions from the line
-      const fullLine = line;
-      
-      // Parse source node
-      const sourceNodeMatch = fullLine.match(new RegExp(`${sourceId}([\\[\\(\\{][^\\]\\)\\}]*[\\]\\)\\}])`));
-      if (sourceNodeMatch && !nodeMap.has(sourceId)) {
-        const fullDef = sourceNodeMatch[0];
-        const shape = getNodeShape(fullDef);
-        const labelMatch = fullDef.match(/[\[\(\{]([^\]\)\}]*)[\]\)\}]/);
-        const label = labelMatch ? cleanLabel(labelMatch[1]) : sourceId;
-        
-        const node: MermaidNode = { id: sourceId, label, shape, subgraph: currentSubgraph || undefined };
-        nodes.push(node);
-        nodeMap.set(sourceId, node);
-        
-        if (currentSubgraph) {
-          const subgraph = subgraphs.find(sg => sg.id === currentSubgraph);
-          if (subgraph) subgraph.nodes.push(sourceId);
-        }
-      } else if (!nodeMap.has(sourceId)) {
-        // Create simple node
-        const node: MermaidNode = { id: sourceId, label: sourceId, shape: 'rect', subgraph: currentSubgraph || undefined };
-        nodes.push(node);
-        nodeMap.set(sourceId, node);
-        
-        if (currentSubgraph) {
-          const subgraph = subgraphs.find(sg => sg.id === currentSubgraph);
-          if (subgraph) subgraph.nodes.push(sourceId);
+    if (existing) {
+      if (ref.shape) {
+        existing.shape = ref.shape;
+        if (ref.label !== undefined) {
+          existing.label = cleanLabel(ref.label);
         }
       }
-      
-      // Parse target node
-      const targetNodeMatch = fullLine.match(new RegExp(`${targetId}([\\[\\(\\{][^\\]\\)\\}]*[\\]\\)\\}])`));
-      if (targetNodeMatch && !nodeMap.has(targetId)) {
-        const fullDef = targetNodeMatch[0];
-        const shape = getNodeShape(fullDef);
-        const labelMatch = fullDef.match(/[\[\(\{]([^\]\)\}]*)[\]\)\}]/);
-        const label = labelMatch ? cleanLabel(labelMatch[1]) : targetId;
-        
-        const node: MermaidNode = { id: targetId, label, shape, subgraph: currentSubgraph || undefined };
-        nodes.push(node);
-        nodeMap.set(targetId, node);
-        
-        if (currentSubgraph) {
-          const subgraph = subgraphs.find(sg => sg.id === currentSubgraph);
-          if (subgraph) subgraph.nodes.push(targetId);
-        }
-      } else if (!nodeMap.has(targetId)) {
-        // Create simple node
-        const node: MermaidNode = { id: targetId, label: targetId, shape: 'rect', subgraph: currentSubgraph || undefined };
-        nodes.push(node);
-        nodeMap.set(targetId, node);
-        
-        if (currentSubgraph) {
-          const subgraph = subgraphs.find(sg => sg.id === currentSubgraph);
-          if (subgraph) subgraph.nodes.push(targetId);
+      return;
+    }
+
+    const node: MermaidNode = {
+      id: ref.id,
+      label: ref.label !== undefined ? cleanLabel(ref.label) : ref.id,
+      shape: ref.shape ?? 'rect',
+      subgraph: subgraph?.id,
+      classes: ref.classNames
+    };
+    nodes.push(node);
+    nodeMap.set(ref.id, node);
+    subgraph?.nodes.push(ref.id);
+  };
+
+  const visit = (statements: FlowchartStatement[], subgraph: SubgraphInfo | null) => {
+    statements.forEach(statement => {
+      switch (statement.type) {
+        case 'node':
+          statement.nodes.forEach(ref => declareNode(ref, subgraph));
+          break;
+        case 'edge':
+          statement.groups.forEach(group => group.forEach(ref => declareNode(ref, subgraph)));
+          // Expand chains (A --> B --> C) and fan-out (A & B --> C) into individual edges
+          statement.links.forEach((link, i) => {
+            statement.groups[i].forEach(source => {
+              statement.groups[i + 1].forEach(target => {
+                edges.push({
+                  source: source.id,
+                  target: target.id,
+                  label: link.label ? cleanLabel(link.label) : '',
+                  type: getEdgeType(link),
+                  markerStart: link.start,
+                  markerEnd: link.end,
+                  length: link.length
+                });
+              });
+            });
+          });
+          break;
+        case 'subgraph': {
+          const info: SubgraphInfo = { id: statement.id, title: statement.title, nodes: [], parent: subgraph?.id };
+          subgraphs.push(info);
+          visit(statement.statements, info);
+          break;
         }
-      }
-      
-      // Add edge
-      edges.push({
-        source: sourceId,
-        target: targetId,
-        label: edgeLabel,
-        type: edgeType
-      });
-    } else {
-      // Parse standalone node definitions
-      const nodePatterns = [
-        /^([A-Za-z0-9_]+)([\[\(\{][^\]\)\}]*[\]\)\}])/,
-        /^([A-Za-z0-9_]+)$/
-      ];
-      
-      for (const pattern of nodePatterns) {
-        const nodeMatch = line.match(pattern);
-        if (nodeMatch && !nodeMap.has(nodeMatch[1])) {
-          const nodeId = nodeMatch[1];
-          const nodeDef = nodeMatch[2] || '[' + nodeId + ']';
-          const shape = getNodeShape(nodeDef);
-          const labelMatch = nodeDef.match(/[\[\(\{]([^\]\)\}]*)[\]\)\}]/);
-          const label = labelMatch ? cleanLabel(labelMatch[1]) : nodeId;
-          
-          const node: MermaidNode = { id: nodeId, label, shape, subgraph: currentSubgraph || undefined };
-          nodes.push(node);
-          nodeMap.set(nodeId, node);
-          
-          if (currentSubgraph) {
-            const subgraph = subgraphs.find(sg => sg.id === currentSubgraph);
-            if (subgraph) subgraph.nodes.push(nodeId);
+        case 'direction':
+          if (subgraph) {
+            subgraph.direction = statement.direction;
           }
           break;
-        }
+        case 'classDef':
+          statement.classNames.forEach(name => {
+            classDefs.set(name, { ...classDefs.get(name), ...statement.style });
+          });
+          break;
+        // Targets may be declared after these statements, so they are applied once everything is known
+        case 'class':
+        case 'style':
+        case 'linkStyle':
+          styleStatements.push(statement);
+          break;
       }
+    });
+  };
+
+  const classDefs = new Map<string, MermaidStyle>();
+  const styleStatements: Array<FlowchartClassStatement | FlowchartStyleStatement | FlowchartLinkStyleStatement> = [];
+
+  visit(document.statements, null);
+
+  // Edge endpoints that name a subgraph connect to its container, not to a node of their own
+  const subgraphMap = new Map(subgraphs.map(sg => [sg.id, sg]));
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const subgraph = subgraphMap.get(nodes[i].id);
+    if (!subgraph) continue;
+
+    const [node] = nodes.splice(i, 1);
+    nodeMap.delete(node.id);
+    if (node.classes) {
+      subgraph.classes = [...(subgraph.classes ?? []), ...node.classes];
     }
+    subgraphs.forEach(sg => {
+      sg.nodes = sg.nodes.filter(id => id !== node.id);
+    });
   }
-  
-  return { nodes, edges, subgraphs };
+
+  styleStatements.forEach(statement => {
+    if (statement.type === 'linkStyle') {
+      const targets = statement.indices === 'default' ? edges.map((_, index) => index) : statement.indices;
+      targets.forEach(index => {
+        const edge = edges[index];
+        if (edge) {
+          edge.style = { ...edge.style, ...statement.style };
+        } else {
+          diagnostics.push(createDiagnostic(
+            'warning', code, statement.span, `linkStyle index ${index} is out of range, ignored`
+          ));
+        }
+      });
+      return;
+    }
+
+    const ids = statement.type === 'class' ? statement.ids : [statement.id];
+    ids.forEach(id => {
+      const target = nodeMap.get(id) ?? subgraphs.find(sg => sg.id === id);
+      if (!target) {
+        diagnostics.push(createDiagnostic(
+          'warning', code, statement.span, `\`${statement.type}\` references undefined node \`${id}\`, ignored`
+        ));
+      } else if (statement.type === 'class') {
+        target.classes = [...(target.classes ?? []), statement.className];
+      } else {
+        target.style = { ...target.style, ...statement.style };
+        target.inlineStyle = { ...target.inlineStyle, ...statement.style };
+      }
+    });
+  });
+
+  // Resolve the effective style: classDef default, then each class in order, then inline style
+  const resolveStyle = (target: MermaidNode | SubgraphInfo, applyDefault: boolean) => {
+    const classStyles = (target.classes ?? []).map(name => classDefs.get(name));
+    const resolved = Object.assign(
+      {},
+      applyDefault ? classDefs.get('default') : undefined,
+      ...classStyles,
+      target.style
+    );
+    target.style = Object.keys(resolved).length > 0 ? resolved : undefined;
+  };
+  nodes.forEach(node => resolveStyle(node, true));
+  subgraphs.forEach(subgraph => resolveStyle(subgraph, false));
+
+  return { nodes, edges, subgraphs, direction: document.direction, diagnostics };
 }
 
 // Calculate dynamic node sizes based on label length
@@ -369,34 +788,78 @@ function calculateNodeSize(label: string, shape: string) {
   const width = Math.max(100, Math.min(250, maxLineLength * 7 + 30));
   const height = Math.max(40, lines.length * 18 + 25);
   
-  if (shape === 'diamond') {
-    return { width: Math.max(80, width * 0.8), height: Math.max(80, height * 0.8) };
-  }
-  if (shape === 'circle') {
-    const size = Math.max(width, height) + 10;
-    return { width: size, height: size };
+  switch (shape) {
+    case 'diamond':
+      // Text only fits in the middle half of a diamond
+      return { width: Math.max(100, width * 1.4), height: Math.max(80, height * 1.6) };
+    case 'circle': {
+      const size = Math.max(width, height) + 10;
+      return { width: size, height: size };
+    }
+    case 'double-circle': {
+      const size = Math.max(width, height) + 26;
+      return { width: size, height: size };
+    }
+    case 'hexagon':
+    case 'parallelogram':
+    case 'parallelogram-alt':
+    case 'trapezoid':
+    case 'trapezoid-alt':
+      // Slanted sides eat into the label area
+      return { width: width + 40, height };
+    case 'subroutine':
+    case 'asymmetric':
+      return { width: width + 20, height };
+    case 'cylinder':
+      // Room for the top and bottom ellipses
+      return { width, height: height + 30 };
+    // State diagram pseudo-states have a fixed size
+    case 'start':
+      return { width: 24, height: 24 };
+    case 'end':
+      return { width: 28, height: 28 };
+    case 'fork':
+      return { width: 90, height: 10 };
+    case 'fork-vertical':
+      return { width: 10, height: 90 };
+    case 'choice':
+      return { width: 40, height: 40 };
+    default:
+      return { width, height };
   }
-  return { width, height };
 }
 
-// Phase 1: Layout each subgraph independently
-function layoutSubgraphs(nodes: MermaidNode[], edges: MermaidEdge[], subgraphs: SubgraphInfo[]): Map<string, SubgraphLayout> {
+// Phase 1: Layout each subgraph, innermost first so nested containers are sized before their parents
+function layoutSubgraphs(
+  nodes: MermaidNode[],
+  edges: MermaidEdge[],
+  subgraphs: SubgraphInfo[],
+  direction: FlowDirection
+): Map<string, SubgraphLayout> {
   const subgraphLayouts = new Map<string, SubgraphLayout>();
+  const subgraphMap = new Map(subgraphs.map(sg => [sg.id, sg]));
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const depth = (subgraph: SubgraphInfo) => getSubgraphAncestry(subgraph.id, subgraphMap).length;
   
-  subgraphs.forEach(subgraph => {
-    const subgraphNodes = nodes.filter(n => n.subgraph === subgraph.id);
-    const subgraphEdges = edges.filter(e => {
-      const sourceNode = nodes.find(n => n.id === e.source);
-      const targetNode = nodes.find(n => n.id === e.target);
-      return sourceNode?.subgraph === subgraph.id && targetNode?.subgraph === subgraph.id;
+  [...subgraphs].sort((a, b) => depth(b) - depth(a)).forEach(subgraph => {
+    // Direct children: the subgraph's own nodes plus already laid out nested subgraphs
+    const childSizes = new Map<string, { width: number; height: number }>();
+    nodes.filter(n => n.subgraph === subgraph.id).forEach(node => {
+      childSizes.set(node.id, calculateNodeSize(node.label, node.shape));
+    });
+    subgraphs.filter(sg => sg.parent === subgraph.id).forEach(child => {
+      const childLayout = subgraphLayouts.get(child.id);
+      if (childLayout) {
+        childSizes.set(child.id, { width: childLayout.width, height: childLayout.height });
+      }
     });
     
-    if (subgraphNodes.length === 0) return;
+    if (childSizes.size === 0) return;
     
     // Create a new graph for this subgraph
     const g = new dagre.graphlib.Graph();
     g.setGraph({ 
-      rankdir: 'TB', 
+      rankdir: getSubgraphDirection(subgraph.id, subgraphMap, direction), 
       nodesep: 40, 
       ranksep: 60,
       marginx: SUBGRAPH_PADDING,
@@ -405,14 +868,17 @@ function layoutSubgraphs(nodes: MermaidNode[], edges: MermaidEdge[], subgraphs:
     g.setDefaultEdgeLabel(() => ({}));
     
     // Add nodes
-    subgraphNodes.forEach(node => {
-      const size = calculateNodeSize(node.label, node.shape);
-      g.setNode(node.id, { width: size.width, height: size.height });
+    childSizes.forEach((size, id) => {
+      g.setNode(id, { width: size.width, height: size.height });
     });
     
-    // Add edges
-    subgraphEdges.forEach(edge => {
-      g.setEdge(edge.source, edge.target);
+    // Add edges, with nested subgraphs standing in for the nodes inside them
+    edges.forEach(edge => {
+      const source = getRepresentative(edge.source, subgraph.id, nodeMap, subgraphMap);
+      const target = getRepresentative(edge.target, subgraph.id, nodeMap, subgraphMap);
+      if (source && target && source !== target) {
+        setLayoutEdge(g, source, target, edge.length);
+      }
     });
     
     // Layout this subgraph
@@ -422,11 +888,10 @@ function layoutSubgraphs(nodes: MermaidNode[], edges: MermaidEdge[], subgraphs:
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
     const nodePositions = new Map<string, { x: number; y: number; width: number; height: number }>();
     
-    subgraphNodes.forEach(node => {
-      const nodeLayout = g.node(node.id);
-      const size = calculateNodeSize(node.label, node.shape);
+    childSizes.forEach((size, id) => {
+      const nodeLayout = g.node(id);
       
-      nodePositions.set(node.id, {
+      nodePositions.set(id, {
         x: nodeLayout.x,
         y: nodeLayout.y,
         width: size.width,
@@ -463,15 +928,17 @@ function layoutSubgraphs(nodes: MermaidNode[], edges: MermaidEdge[], subgraphs:
   return subgraphLayouts;
 }
 
-// Phase 2: Layout meta-graph (containers + standalone nodes)
+// Phase 2: Layout meta-graph (top-level containers + standalone nodes)
 function layoutMetaGraph(
   nodes: MermaidNode[], 
   edges: MermaidEdge[], 
-  subgraphLayouts: Map<string, SubgraphLayout>
+  subgraphs: SubgraphInfo[],
+  subgraphLayouts: Map<string, SubgraphLayout>,
+  direction: FlowDirection
 ): { subgraphPositions: Map<string, { x: number; y: number }>, standalonePositions: Map<string, { x: number; y: number }> } {
   const g = new dagre.graphlib.Graph();
   g.setGraph({ 
-    rankdir: 'TB', 
+    rankdir: direction, 
     nodesep: 80, 
     ranksep: 100,
     marginx: 50,
@@ -479,9 +946,16 @@ function layoutMetaGraph(
   });
   g.setDefaultEdgeLabel(() => ({}));
   
-  // Add subgraph containers as nodes
+  const subgraphMap = new Map(subgraphs.map(sg => [sg.id, sg]));
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  
+  // Add top-level subgraph containers as nodes; nested ones are placed inside their parents
+  const topLevelLayouts = new Map<string, SubgraphLayout>();
   subgraphLayouts.forEach((layout, id) => {
-    g.setNode(id, { width: layout.width, height: layout.height });
+    if (!subgraphMap.get(id)?.parent) {
+      topLevelLayouts.set(id, layout);
+      g.setNode(id, { width: layout.width, height: layout.height });
+    }
   });
   
   // Add standalone nodes
@@ -491,20 +965,15 @@ function layoutMetaGraph(
     g.setNode(node.id, { width: size.width, height: size.height });
   });
   
-  // Add edges between containers and standalone nodes
+  // Add edges between containers and standalone nodes, including edges that name a container
   edges.forEach(edge => {
-    const sourceNode = nodes.find(n => n.id === edge.source);
-    const targetNode = nodes.find(n => n.id === edge.target);
-    
     // Determine the meta-nodes for this edge
-    const sourceMetaNode = sourceNode?.subgraph || sourceNode?.id;
-    const targetMetaNode = targetNode?.subgraph || targetNode?.id;
+    const sourceMetaNode = getRepresentative(edge.source, undefined, nodeMap, subgraphMap);
+    const targetMetaNode = getRepresentative(edge.target, undefined, nodeMap, subgraphMap);
     
     if (sourceMetaNode && targetMetaNode && sourceMetaNode !== targetMetaNode) {
-      // Don't add duplicate edges between same containers
-      if (!g.hasEdge(sourceMetaNode, targetMetaNode)) {
-        g.setEdge(sourceMetaNode, targetMetaNode);
-      }
+      // Duplicate edges between the same containers collapse into one
+      setLayoutEdge(g, sourceMetaNode, targetMetaNode, edge.length);
     }
   });
   
@@ -515,7 +984,7 @@ function layoutMetaGraph(
   const subgraphPositions = new Map<string, { x: number; y: number }>();
   const standalonePositions = new Map<string, { x: number; y: number }>();
   
-  subgraphLayouts.forEach((layout, id) => {
+  topLevelLayouts.forEach((layout, id) => {
     const node = g.node(id);
     subgraphPositions.set(id, {
       x: node.x - layout.width / 2,
@@ -542,9 +1011,11 @@ function createReactFlowElements(
   subgraphs: SubgraphInfo[],
   subgraphLayouts: Map<string, SubgraphLayout>,
   subgraphPositions: Map<string, { x: number; y: number }>,
-  standalonePositions: Map<string, { x: number; y: number }>
+  standalonePositions: Map<string, { x: number; y: number }>,
+  direction: FlowDirection
 ): ReactFlowData {
   const reactFlowNodes: Node[] = [];
+  const subgraphMap = new Map(subgraphs.map(sg => [sg.id, sg]));
   
   // Color schemes
   const getNodeColors = (shape: string) => {
@@ -554,6 +1025,21 @@ function createReactFlowElements(
       circle: ['#E8F5E8', '#388E3C'], // Green
       stadium: ['#F3E5F5', '#7B1FA2'], // Purple
       round: ['#FCE4EC', '#C2185B'], // Pink
+      'double-circle': ['#E8F5E8', '#2E7D32'], // Dark green
+      hexagon: ['#FFFDE7', '#F9A825'], // Yellow
+      subroutine: ['#E0F2F1', '#00796B'], // Teal
+      cylinder: ['#ECEFF1', '#455A64'], // Blue grey
+      asymmetric: ['#FBE9E7', '#D84315'], // Deep orange
+      parallelogram: ['#E8EAF6', '#3949AB'], // Indigo
+      'parallelogram-alt': ['#E8EAF6', '#3949AB'], // Indigo
+      trapezoid: ['#EFEBE9', '#5D4037'], // Brown
+      'trapezoid-alt': ['#EFEBE9', '#5D4037'], // Brown
+      choice: ['#FFF3E0', '#F57C00'], // Orange
+      note: ['#FFF9C4', '#F9A825'], // Pale yellow
+      start: ['#1F2937', '#1F2937'], // Near black
+      end: ['#1F2937', '#1F2937'],
+      fork: ['#1F2937', '#1F2937'],
+      'fork-vertical': ['#1F2937', '#1F2937'],
     };
     
     const defaultColors = ['#F0F4F8', '#2D3748'];
@@ -576,21 +1062,32 @@ function createReactFlowElements(
     return subgraphColors[index % subgraphColors.length];
   };
   
-  // Add subgraph containers
+  // Add subgraph containers; parents come before their nested subgraphs, as React Flow requires
   subgraphs.forEach((subgraph, index) => {
     const layout = subgraphLayouts.get(subgraph.id);
-    const position = subgraphPositions.get(subgraph.id);
+    const nestedLayout = subgraph.parent ? subgraphLayouts.get(subgraph.parent)?.nodes.get(subgraph.id) : undefined;
+    const position = nestedLayout
+      ? { x: nestedLayout.x - nestedLayout.width / 2, y: nestedLayout.y - nestedLayout.height / 2 }
+      : subgraphPositions.get(subgraph.id);
+    const parentNode = nestedLayout ? subgraph.parent : undefined;
+    // Edges to the container follow the direction of the level it sits in
+    const handlePositions = getHandlePositions(getSubgraphDirection(subgraph.parent, subgraphMap, direction));
     
     if (layout && position) {
       const colors = getSubgraphColors(index);
+      const { color: titleColor, ...customStyle } = subgraph.style ? toNodeStyle(subgraph.style) : {};
       
       reactFlowNodes.push({
         id: subgraph.id,
         type: 'group',
         position: position,
+        className: subgraph.classes?.join(' '),
         data: { 
           label: subgraph.title,
-          isSubgraph: true
+          isSubgraph: true,
+          textColor: titleColor,
+          direction: subgraph.direction,
+          mermaidStyle: subgraph.inlineStyle
         },
         style: {
           backgroundColor: colors.bg,
@@ -600,7 +1097,11 @@ function createReactFlowElements(
           height: layout.height,
           boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
           zIndex: -1,
+          ...customStyle,
         },
+        ...handlePositions,
+        parentNode,
+        extent: parentNode ? 'parent' : undefined,
         selectable: true,
         draggable: true,
         connectable: false,
@@ -610,22 +1111,41 @@ function createReactFlowElements(
   
   // Add nodes
   nodes.forEach(node => {
-    const colors = getNodeColors(node.shape);
+    let colors = getNodeColors(node.shape);
+    const customStyle = node.style ? toNodeStyle(node.style) : {};
     
-    let nodeStyle = {
+    let nodeStyle: React.CSSProperties = {
       backgroundColor: colors.backgroundColor,
       borderColor: colors.borderColor,
       borderWidth: '2px',
-      borderStyle: 'solid' as const,
+      borderStyle: 'solid',
       borderRadius: '8px',
       boxShadow: '0 2px 8px rgba(0, 0, 0, 0.1)',
     };
     
-    // Adjust style based on shape
-    switch (node.shape) {
-      case 'diamond':
-        nodeStyle.borderRadius = '0px';
-        break;
+    const outlined = OUTLINED_SHAPES.has(node.shape);
+    if (outlined) {
+      // The SVG outline carries the colours and must fill the node exactly
+      const size = calculateNodeSize(node.label, node.shape);
+      const { backgroundColor, borderColor, borderWidth, borderStyle, borderRadius, ...rest } = customStyle;
+      colors = {
+        backgroundColor: backgroundColor ?? colors.backgroundColor,
+        borderColor: borderColor ?? colors.borderColor,
+      };
+      nodeStyle = {
+        backgroundColor: 'transparent',
+        borderStyle: 'none',
+        boxShadow: 'none',
+        width: size.width,
+        height: size.height,
+        ...rest,
+      };
+    } else {
+      nodeStyle = { ...nodeStyle, ...customStyle };
+    }
+
+    // Adjust style based on shape, unless the diagram sets its own radius
+    switch (customStyle.borderRadius ? undefined : node.shape) {
       case 'circle':
         nodeStyle.borderRadius = '50%';
         break;
@@ -635,18 +1155,40 @@ function createReactFlowElements(
       case 'round':
         nodeStyle.borderRadius = '15px';
         break;
+      case 'note':
+        nodeStyle.borderRadius = '2px';
+        break;
+      case 'start':
+      case 'end': {
+        const size = calculateNodeSize(node.label, node.shape);
+        nodeStyle = { ...nodeStyle, width: size.width, height: size.height, borderRadius: '50%' };
+        if (node.shape === 'end') {
+          // Bullseye: a white ring between the dot and the outer circle
+          nodeStyle = { ...nodeStyle, borderWidth: '4px', borderColor: '#FFFFFF', boxShadow: `0 0 0 2px ${colors.borderColor}` };
+        }
+        break;
+      }
+      case 'fork':
+      case 'fork-vertical': {
+        const size = calculateNodeSize(node.label, node.shape);
+        nodeStyle = { ...nodeStyle, width: size.width, height: size.height, borderRadius: '3px' };
+        break;
+      }
     }
     
     let position: { x: number; y: number };
     let parentNode: string | undefined;
+
+    // Nodes inside a subgraph follow that subgraph's own direction, if it has one
+    const nodeDirection = getSubgraphDirection(node.subgraph, subgraphMap, direction);
+    const { sourcePosition, targetPosition } = getHandlePositions(nodeDirection);
     
     if (node.subgraph) {
       // Node is inside a subgraph
       const subgraphLayout = subgraphLayouts.get(node.subgraph);
-      const subgraphPosition = subgraphPositions.get(node.subgraph);
       const nodeLayout = subgraphLayout?.nodes.get(node.id);
       
-      if (nodeLayout && subgraphPosition) {
+      if (nodeLayout) {
         // Position relative to parent
         position = {
           x: nodeLayout.x - nodeLayout.width / 2,
@@ -671,11 +1213,17 @@ function createReactFlowElements(
         githubUrl: '',
         description: '',
         shape: node.shape,
-        colors
+        outlined,
+        colors,
+        textColor: customStyle.color,
+        strokeWidth: node.style?.['stroke-width'],
+        strokeDasharray: node.style?.['stroke-dasharray'],
+        mermaidStyle: node.inlineStyle
       },
+      className: node.classes?.join(' '),
       style: nodeStyle,
-      sourcePosition: Position.Bottom,
-      targetPosition: Position.Top,
+      sourcePosition,
+      targetPosition,
       parentNode: parentNode,
       extent: parentNode ? 'parent' : undefined,
       draggable: true,
@@ -699,7 +1247,6 @@ function createReactFlowElements(
     // Style edges based on type
     switch (edge.type) {
       case '-->':
-      case '->':
         animated = true;
         edgeStyle.strokeWidth = 2.5;
         break;
@@ -707,38 +1254,68 @@ function createReactFlowElements(
         edgeStyle.strokeDasharray = '8,4';
         break;
       case '-.-':
+      case '-.->':
         edgeStyle.strokeDasharray = '4,4';
         break;
       case '==>':
-      case '===>':
         edgeStyle.strokeWidth = 4;
         animated = true;
         break;
+      case '===':
+        edgeStyle.strokeWidth = 4;
+        break;
+    }
+
+    // linkStyle overrides the defaults above
+    const custom = edge.style ? toEdgeStyle(edge.style) : undefined;
+    if (custom) {
+      edgeStyle = { ...edgeStyle, ...custom.style };
     }
+    const markerColor = typeof edgeStyle.stroke === 'string' ? edgeStyle.stroke : edgeColor;
+    const labelColor = custom?.labelColor ?? edgeColor;
+    const id = `edge-${edge.source}-${edge.target}-${index}`;
+
+    // Circle and cross ends have no MarkerType; EdgeMarkers defines them under these ids
+    const toMarker = (kind: EdgeEnd | undefined, position: 'start' | 'end') => {
+      switch (kind) {
+        case 'arrow':
+          return { type: MarkerType.ArrowClosed, width: 20, height: 20, color: markerColor };
+        case 'circle':
+        case 'cross':
+          return `${id}-${position}`;
+        default:
+          return undefined;
+      }
+    };
     
     return {
-      id: `edge-${edge.source}-${edge.target}-${index}`,
+      id,
       source: edge.source,
       target: edge.target,
       label: edge.label,
       type: edgeType,
       animated,
+      hidden: edge.type === '~~~',
       style: edgeStyle,
+      // The link as written, so edits can be serialized back to Mermaid
+      data: {
+        markers: { start: edge.markerStart, end: edge.markerEnd },
+        link: edge.type,
+        length: edge.length,
+        mermaidStyle: edge.style
+      },
       labelStyle: {
         fontSize: '12px',
         fontWeight: '500',
-        color: edgeColor,
+        color: labelColor,
+        fill: labelColor,
         backgroundColor: 'white',
         padding: '2px 6px',
         borderRadius: '4px',
-        border: `1px solid ${edgeColor}`,
-      },
-      markerEnd: {
-        type: MarkerType.ArrowClosed,
-        width: 20,
-        height: 20,
-        color: edgeColor,
+        border: `1px solid ${labelColor}`,
       },
+      markerStart: toMarker(edge.markerStart, 'start'),
+      markerEnd: toMarker(edge.markerEnd, 'end'),
       zIndex: 0,
     };
   });
@@ -748,15 +1325,27 @@ function createReactFlowElements(
 
 // Main layout function using the three-phase approach
 function layoutSequenceDiagram(nodes: MermaidNode[], edges: MermaidEdge[]): { nodes: Node[], edges: Edge[] } {
-  // Extract headers and lifeline points
+  // Extract headers, lifeline points, block frames, boxes, activations and notes
   const headerNodes: MermaidNode[] = [];
   const lifelineNodes: MermaidNode[] = [];
+  const fragmentNodes: MermaidNode[] = [];
+  const boxNodes: MermaidNode[] = [];
+  const activationNodes: MermaidNode[] = [];
+  const noteNodes: MermaidNode[] = [];
 
   nodes.forEach(node => {
     if (node.id.startsWith('header_')) {
       headerNodes.push(node);
     } else if (node.id.startsWith('lifeline_')) {
       lifelineNodes.push(node);
+    } else if (node.id.startsWith('fragment_')) {
+      fragmentNodes.push(node);
+    } else if (node.id.startsWith('box_')) {
+      boxNodes.push(node);
+    } else if (node.id.startsWith('activation_')) {
+      activationNodes.push(node);
+    } else if (node.id.startsWith('note_')) {
+      noteNodes.push(node);
     }
   });
 
@@ -769,6 +1358,10 @@ function layoutSequenceDiagram(nodes: MermaidNode[], edges: MermaidEdge[]): { no
   const LIFELINE_POINT_SPACING = 100;
   const LIFELINE_START_Y = 150;
 
+  // Rows are centred 6px below a lifeline point's position
+  const rowCentre = (row: number) => LIFELINE_START_Y + (row + 1) * LIFELINE_POINT_SPACING + 6;
+  const columnCentre = (column: number) => column * COLUMN_WIDTH + 6;
+
   const reactFlowNodes: Node[] = [];
   const reactFlowEdges: Edge[] = [];
 
@@ -781,10 +1374,23 @@ function layoutSequenceDiagram(nodes: MermaidNode[], edges: MermaidEdge[]): { no
     { bg: 'linear-gradient(135deg, #fa709a 0%, #fee140 100%)', text: '#ffffff' }, // Pink-Yellow
   ];
 
-  // Position header nodes - use participantOrder for consistent positioning
+  // Position header nodes - use participantOrder for consistent positioning.
+  // A created participant's header sits at the row of the message that creates it.
   headerNodes.forEach((header) => {
     const participantOrder = header.metadata?.participantOrder ?? 0;
     const colorScheme = participantColors[participantOrder % participantColors.length];
+    const createdRow = header.metadata?.createdRow;
+    const y = createdRow !== undefined ? rowCentre(createdRow) - 24 : HEADER_Y;
+
+    if (header.shape === 'actor') {
+      reactFlowNodes.push({
+        id: header.id,
+        type: 'sequenceActor',
+        data: { label: header.label },
+        position: { x: participantOrder * COLUMN_WIDTH, y: createdRow !== undefined ? y : HEADER_Y - 40 }
+      });
+      return;
+    }
 
     reactFlowNodes.push({
       id: header.id,
@@ -793,7 +1399,7 @@ function layoutSequenceDiagram(nodes: MermaidNode[], edges: MermaidEdge[]): { no
         label: header.label,
         shape: 'rect'
       },
-      position: { x: participantOrder * COLUMN_WIDTH, y: HEADER_Y },
+      position: { x: participantOrder * COLUMN_WIDTH, y },
       style: {
         background: colorScheme.bg,
         color: colorScheme.text,
@@ -813,6 +1419,18 @@ function layoutSequenceDiagram(nodes: MermaidNode[], edges: MermaidEdge[]): { no
     const xPosition = participantOrder * COLUMN_WIDTH;
     const yPosition = LIFELINE_START_Y + (lifelineIndex * LIFELINE_POINT_SPACING);
 
+    // A destroyed participant's lifeline ends in a cross
+    if (lifeline.shape === 'destroy') {
+      reactFlowNodes.push({
+        id: lifeline.id,
+        type: 'custom',
+        data: { label: '✕', shape: 'destroy', textColor: '#DC2626' },
+        position: { x: xPosition - 6, y: yPosition - 6 },
+        style: { width: 24, height: 24, fontSize: 20 }
+      });
+      return;
+    }
+
     reactFlowNodes.push({
       id: lifeline.id,
       type: 'custom',
@@ -833,18 +1451,154 @@ function layoutSequenceDiagram(nodes: MermaidNode[], edges: MermaidEdge[]): { no
     });
   });
 
+  const participantColumns = new Map(headerNodes.map(header => [
+    header.metadata?.participantId ?? '', header.metadata?.participantOrder ?? 0
+  ]));
+  const columnsOf = (ids: string[]) => {
+    const columns = ids.map(id => participantColumns.get(id) ?? 0);
+    return columns.length > 0
+      ? { first: Math.min(...columns), last: Math.max(...columns) }
+      : { first: 0, last: 0 };
+  };
+
+  // Boxes run behind their participants from the headers to the bottom of the lifelines
+  const lastLifelineY = LIFELINE_START_Y +
+    Math.max(0, ...lifelineNodes.map(lifeline => lifeline.metadata?.lifelineIndex ?? 0)) * LIFELINE_POINT_SPACING;
+  boxNodes.forEach(boxNode => {
+    const box = boxNode.metadata?.box;
+    if (!box) return;
+
+    const { first, last } = columnsOf(box.participants);
+    const left = columnCentre(first) - 60;
+    const top = HEADER_Y - 50;
+    reactFlowNodes.push({
+      id: boxNode.id,
+      type: 'sequenceFrame',
+      data: { kind: 'box', label: box.label, color: box.color },
+      position: { x: left, y: top },
+      style: { width: columnCentre(last) + 200 - left, height: lastLifelineY + 60 - top, zIndex: -1 },
+      draggable: false,
+      selectable: false,
+      connectable: false
+    });
+  });
+
+  // Frames around loop/alt/... blocks span the rows and participants they cover;
+  // frames with nested frames get extra padding so their borders do not overlap.
+
+  fragmentNodes.forEach(frameNode => {
+    const fragment = frameNode.metadata?.fragment;
+    if (!fragment) return;
+
+    const { first, last } = columnsOf(fragment.participants);
+    const inset = fragment.innerDepth * 12;
+
+    const left = columnCentre(first) - 80 - inset;
+    const right = columnCentre(last) + 80 + inset;
+    // A rect has no header row of its own, so its first row already holds content
+    const top = fragment.kind === 'rect'
+      ? rowCentre(fragment.startRow) - 36 - inset
+      : rowCentre(fragment.startRow) - 24;
+    const bottom = rowCentre(fragment.endRow) + 36 + inset;
+
+    reactFlowNodes.push({
+      id: frameNode.id,
+      type: 'sequenceFrame',
+      data: {
+        kind: fragment.kind,
+        label: fragment.label,
+        color: fragment.color,
+        sections: fragment.sections.map(section => ({
+          label: section.label,
+          offset: rowCentre(section.row) - 30 - top
+        }))
+      },
+      position: { x: left, y: top },
+      style: { width: right - left, height: bottom - top, zIndex: -1 },
+      draggable: false,
+      selectable: false,
+      connectable: false
+    });
+  });
+
+  // Activation bars sit on the lifeline; nested activations step to the right
+  activationNodes.forEach(activationNode => {
+    const activation = activationNode.metadata?.activation;
+    if (!activation) return;
+
+    const top = rowCentre(activation.startRow) - 16;
+    reactFlowNodes.push({
+      id: activationNode.id,
+      type: 'sequenceActivation',
+      data: {},
+      position: {
+        x: columnCentre(activationNode.metadata?.participantOrder ?? 0) - 6 + activation.depth * 6,
+        y: top
+      },
+      style: { width: 12, height: rowCentre(activation.endRow) + 16 - top },
+      draggable: false,
+      selectable: false,
+      connectable: false
+    });
+  });
+
+  // Notes are placed beside or over their participants' lifelines
+  const NOTE_WIDTH = 150;
+  noteNodes.forEach(noteNode => {
+    const note = noteNode.metadata?.note;
+    if (!note) return;
+
+    const { first, last } = columnsOf(note.participants);
+    let left = columnCentre(first) - NOTE_WIDTH / 2;
+    let width = NOTE_WIDTH;
+    if (note.placement === 'left') {
+      left = columnCentre(first) - NOTE_WIDTH - 20;
+    } else if (note.placement === 'right') {
+      left = columnCentre(first) + 20;
+    } else if (last > first) {
+      left = columnCentre(first) - 50;
+      width = columnCentre(last) + 50 - left;
+    }
+
+    reactFlowNodes.push({
+      id: noteNode.id,
+      type: 'custom',
+      data: { label: noteNode.label, shape: 'note' },
+      position: { x: left, y: rowCentre(note.row) - 22 },
+      style: {
+        width,
+        backgroundColor: '#FFF9C4',
+        borderColor: '#F9A825',
+        borderWidth: '1px',
+        borderStyle: 'solid',
+        borderRadius: '2px',
+        boxShadow: '0 2px 6px rgba(0, 0, 0, 0.1)'
+      }
+    });
+  });
+
   // Create edges
   edges.forEach((edge, index) => {
     const edgeStyle = edge.type === 'dashed' ? 'dashed' : 'default';
+    const id = `edge-${index}`;
 
     // Determine edge type based on whether it's a lifeline connection or message
     let edgeType = 'smoothstep';
     let edgeColor = '#94a3b8';
     let strokeWidth = 2;
     let isAnimated = false;
+    const isMessage = edge.markerEnd !== undefined;
 
+    // Message arrows - make them prominent and animated.
+    // A message to the sender itself loops out from and back to its lifeline.
+    if (isMessage) {
+      edgeType = edge.source === edge.target ? 'selfMessage' : 'straight';
+      edgeColor = '#3b82f6';
+      strokeWidth = 3;
+      isAnimated = true;
+    }
     // Lifeline connections (vertical) - make them visible but subtle
-    if (edge.source.includes('lifeline_') && edge.target.includes('lifeline_') && !edge.label) {
+    else if (edge.source.includes('lifeline_') && edge.target.includes('lifeline_')) {
       edgeType = 'straight';
       edgeColor = '#cbd5e1';
       strokeWidth = 2;
@@ -855,16 +1609,23 @@ function layoutSequenceDiagram(nodes: MermaidNode[], edges: MermaidEdge[]): { no
       edgeColor = '#cbd5e1';
       strokeWidth = 2;
     }
-    // Message arrows - make them prominent and animated
-    else if (edge.label) {
-      edgeType = 'straight';
-      edgeColor = '#3b82f6';
-      strokeWidth = 3;
-      isAnimated = true;
-    }
+
+    // Filled and open arrowheads are built in; crosses are defined by EdgeMarkers
+    const toMarker = (kind: EdgeEnd | undefined, position: 'start' | 'end') => {
+      switch (kind) {
+        case 'arrow':
+          return { type: MarkerType.ArrowClosed, color: edgeColor, width: 20, height: 20 };
+        case 'async':
+          return { type: MarkerType.Arrow, color: edgeColor, width: 20, height: 20 };
+        case 'cross':
+          return `${id}-${position}`;
+        default:
+          return undefined;
+      }
+    };
 
     reactFlowEdges.push({
-      id: `edge-${index}`,
+      id,
       source: edge.source,
       target: edge.target,
       label: edge.label,
@@ -884,49 +1645,126 @@ function layoutSequenceDiagram(nodes: MermaidNode[], edges: MermaidEdge[]): { no
         fill: '#ffffff',
         fillOpacity: 0.9
       } : undefined,
-      markerEnd: edge.label ? {
-        type: MarkerType.ArrowClosed,
-        color: edgeColor,
-        width: 20,
-        height: 20
-      } : undefined,
+      markerStart: toMarker(edge.markerStart, 'start'),
+      markerEnd: toMarker(edge.markerEnd, 'end'),
+      data: isMessage ? { markers: { start: edge.markerStart, end: edge.markerEnd } } : undefined,
     });
   });
 
   return { nodes: reactFlowNodes, edges: reactFlowEdges };
 }
 
-function layoutGraph(nodes: MermaidNode[], edges: MermaidEdge[], subgraphs: SubgraphInfo[]): { nodes: Node[], edges: Edge[] } {
+function layoutGraph(
+  nodes: MermaidNode[],
+  edges: MermaidEdge[],
+  subgraphs: SubgraphInfo[],
+  direction: FlowDirection
+): { nodes: Node[], edges: Edge[] } {
   // Phase 1: Layout each subgraph independently
-  const subgraphLayouts = layoutSubgraphs(nodes, edges, subgraphs);
+  const subgraphLayouts = layoutSubgraphs(nodes, edges, subgraphs, direction);
 
   // Phase 2: Layout meta-graph (containers + standalone nodes)
-  const { subgraphPositions, standalonePositions } = layoutMetaGraph(nodes, edges, subgraphLayouts);
+  const { subgraphPositions, standalonePositions } = layoutMetaGraph(nodes, edges, subgraphs, subgraphLayouts, direction);
 
   // Phase 3: Combine layouts and create React Flow elements
-  return createReactFlowElements(nodes, edges, subgraphs, subgraphLayouts, subgraphPositions, standalonePositions);
+  return createReactFlowElements(
+    nodes, edges, subgraphs, subgraphLayouts, subgraphPositions, standalonePositions, direction
+  );
 }
 
-export async function convertMermaidToReactFlow(mermaidCode: string): Promise<ReactFlowData> {
-  try {
-    // Parse the Mermaid code
-    const { nodes, edges, subgraphs } = parseMermaidCode(mermaidCode);
+// Built-in diagram types, in detection order. State diagrams map onto the same
+// nodes, edges and subgraphs as flowcharts and share their layout.
+registerDiagramConverter({
+  type: 'flowchart',
+  detect: declaration => /^(graph|flowchart)\b/i.test(declaration),
+  parse: parseFlowchartDiagram,
+  layout: ({ nodes, edges, subgraphs, direction }) => layoutGraph(nodes, edges, subgraphs, direction),
+});
+registerDiagramConverter({
+  type: 'sequence',
+  detect: declaration => /^sequenceDiagram\b/i.test(declaration),
+  parse: parseSequenceDiagram,
+  layout: ({ nodes, edges }) => layoutSequenceDiagram(nodes, edges),
+  fitView: false,
+});
+registerDiagramConverter({
+  type: 'class',
+  detect: declaration => /^classDiagram\b/i.test(declaration),
+  parse: parseClassDiagram,
+  layout: layoutClassDiagram,
+});
+registerDiagramConverter({
+  type: 'state',
+  detect: declaration => /^stateDiagram\b/i.test(declaration),
+  parse: parseStateDiagram,
+  layout: ({ nodes, edges, subgraphs, direction }) => layoutGraph(nodes, edges, subgraphs, direction),
+});
+registerDiagramConverter({
+  type: 'er',
+  detect: declaration => /^erDiagram\b/i.test(declaration),
+  parse: parseErDiagram,
+  layout: layoutErDiagram,
+});
+registerDiagramConverter({
+  type: 'gantt',
+  detect: declaration => /^gantt\b/i.test(declaration),
+  parse: parseGanttDiagram,
+  layout: layoutGanttDiagram,
+});
+registerDiagramConverter({
+  type: 'pie',
+  detect: declaration => /^pie\b/i.test(declaration),
+  parse: parsePieChart,
+  layout: layoutPieChart,
+});
+registerDiagramConverter({
+  type: 'mindmap',
+  detect: declaration => /^mindmap\b/i.test(declaration),
+  parse: parseMindmap,
+  layout: layoutMindmap,
+});
+registerDiagramConverter({
+  type: 'quadrant',
+  detect: declaration => /^quadrantChart\b/i.test(declaration),
+  parse: parseQuadrantChart,
+  layout: layoutQuadrantChart,
+});
+registerDiagramConverter({
+  type: 'git',
+  detect: declaration => /^gitGraph\b/i.test(declaration),
+  parse: parseGitGraph,
+  layout: layoutGitGraph,
+  fitView: false,
+});
 
-    if (nodes.length === 0) {
-      console.warn('No nodes found in Mermaid diagram');
-      return { nodes: [], edges: [] };
-    }
+export async function convertMermaidToReactFlow(
+  mermaidCode: string,
+  options: ConversionOptions = {}
+): Promise<ConversionResult> {
+  const sourceLines = mermaidCode.split('\n');
+  const headerIndex = Math.max(0, sourceLines.findIndex(line => line.trim() && !line.trim().startsWith('%%')));
 
-    // Check if this is a sequence diagram and use special layout
-    const isSequenceDiagram = mermaidCode.trim().startsWith('sequenceDiagram');
-    if (isSequenceDiagram) {
-      return layoutSequenceDiagram(nodes, edges);
-    }
+  const converter = findDiagramConverter(mermaidCode);
+  if (!converter) {
+    return {
+      nodes: [],
+      edges: [],
+      diagnostics: [createLineDiagnostic('error', sourceLines, headerIndex, 'unrecognised diagram type')]
+    };
+  }
 
-    // Layout the graph and return
-    return layoutGraph(nodes, edges, subgraphs);
+  try {
+    const { nodes, edges, diagnostics } = converter.convert(mermaidCode, options);
+    if (nodes.length === 0) {
+      diagnostics.push(createLineDiagnostic('warning', sourceLines, headerIndex, 'no nodes found in diagram'));
+    }
+    return { nodes, edges, diagnostics };
   } catch (error) {
-    console.error('Error converting Mermaid to React Flow:', error);
-    return { nodes: [], edges: [] };
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      nodes: [],
+      edges: [],
+      diagnostics: [createLineDiagnostic('error', sourceLines, headerIndex, `conversion failed: ${message}`)]
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseMindmap } from './mindmapDiagram';
+import { convertMermaidToReactFlow } from './mermaidToReactFlow';
+
+const MINDMAP = `mindmap
+  root((Plans))
+    Work
+      Reports
+    Home`;
+
+describe('mindmaps', () => {
+  it('parses the tree from indentation', () => {
+    const { root, diagnostics } = parseMindmap(MINDMAP);
+    expect(diagnostics).toEqual([]);
+    expect(root).toMatchObject({
+      id: 'root',
+      label: 'Plans',
+      shape: 'circle',
+      children: [
+        { label: 'Work', shape: 'default', children: [{ label: 'Reports', children: [] }] },
+        { label: 'Home', children: [] },
+      ],
+    });
+  });
+
+  it('converts to a node per idea with a branch to each child', async () => {
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(MINDMAP);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.data.label, node.data.shape, node.data.parentId])).toEqual([
+      ['root', 'Plans', 'circle', undefined],
+      ['node-2', 'Work', 'default', 'root'],
+      ['node-3', 'Reports', 'default', 'node-2'],
+      ['node-4', 'Home', 'default', 'root'],
+    ]);
+    expect(edges.map(edge => [edge.source, edge.target])).toEqual([
+      ['root', 'node-2'],
+      ['node-2', 'node-3'],
+      ['root', 'node-4'],
+    ]);
+  });
+
+  it('lays the tree out left and right of the root when asked', async () => {
+    const { nodes } = await convertMermaidToReactFlow(MINDMAP, { mindmapLayout: 'tree' });
+    const [root, work, reports, home] = nodes;
+    expect(work.position.x).toBeGreaterThan(root.position.x);
+    expect(home.position.x).toBeLessThan(root.position.x);
+    expect(reports.position.x).toBeGreaterThan(work.position.x);
+  });
+});
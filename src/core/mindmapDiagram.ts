@@ -0,0 +1,274 @@
+/**
+ * Mermaid mindmap conversion: the hierarchy comes from indentation, each node keeps
+ * its shape and icon, and the tree is laid out radially or as a balanced left/right tree.
+ * Format: mindmap, root((Ideas)), indented children such as Topic[Square] or ::icon(fa fa-book)
+ */
+
+import { Node, Edge, Position } from 'reactflow';
+import type { ConversionOptions, ReactFlowData } from './mermaidToReactFlow';
+import { ConversionDiagnostic, createLineDiagnostic } from './diagnostics';
+
+export type MindmapLayout = 'radial' | 'tree';
+
+export type MindmapShape = 'default' | 'square' | 'rounded' | 'circle' | 'bang' | 'cloud' | 'hexagon';
+
+interface MindmapNode {
+  id: string;
+  label: string;
+  shape: MindmapShape;
+  icon?: string;
+  classes: string[];
+  children: MindmapNode[];
+  indent: number;
+}
+
+// Delimiters around the text, longest first so (( is not read as (
+const SHAPE_DELIMITERS: Array<{ open: string; close: string; shape: MindmapShape }> = [
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '))', close: '((', shape: 'bang' },
+  { open: '{{', close: '}}', shape: 'hexagon' },
+  { open: '[', close: ']', shape: 'square' },
+  { open: '(', close: ')', shape: 'rounded' },
+  { open: ')', close: '(', shape: 'cloud' },
+];
+
+// One colour per first-level branch, as Mermaid does
+const BRANCH_COLORS = ['#6366F1', '#EC4899', '#F59E0B', '#10B981', '#0EA5E9', '#8B5CF6', '#EF4444', '#14B8A6'];
+const ROOT_COLOR = '#1E293B';
+
+const RING_SPACING = 220;
+const TREE_LEVEL_GAP = 60;
+const TREE_SIBLING_GAP = 16;
+
+function parseNodeText(text: string): { id?: string; label: string; shape: MindmapShape } {
+  for (const { open, close, shape } of SHAPE_DELIMITERS) {
+    const start = text.indexOf(open);
+    if (start >= 0 && text.endsWith(close) && text.length >= start + open.length + close.length) {
+      const id = text.slice(0, start).trim();
+      if (/^[^\s()[\]{}]*$/.test(id)) {
+        return { id: id || undefined, label: cleanLabel(text.slice(start + open.length, text.length - close.length)), shape };
+      }
+    }
+  }
+  return { label: cleanLabel(text), shape: 'default' };
+}
+
+// Strip the quotes and backticks of "`markdown strings`"
+function cleanLabel(label: string): string {
+  return label.trim().replace(/^"`?([\s\S]*?)`?"$/, '$1').replace(/<br\s*\/?>/gi, '\n');
+}
+
+export interface ParsedMindmap {
+  root?: MindmapNode;
+  diagnostics: ConversionDiagnostic[];
+}
+
+export function parseMindmap(code: string): ParsedMindmap {
+  const lines = code.split('\n');
+  const diagnostics: ConversionDiagnostic[] = [];
+  const usedIds = new Set<string>();
+  const stack: MindmapNode[] = [];
+  let root: MindmapNode | undefined;
+  let previous: MindmapNode | undefined;
+  let seenHeader = false;
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%%')) continue;
+
+    if (!seenHeader) {
+      seenHeader = true;
+      if (/^mindmap\b/.test(line)) continue;
+    }
+
+    // Decorations apply to the node on the line before
+    const decoration = line.match(/^(?:::icon\((.*)\)|:::\s*(.+))$/);
+    if (decoration) {
+      if (!previous) {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, 'decoration before any node, ignored'));
+      } else if (decoration[1] !== undefined) {
+        previous.icon = decoration[1].trim();
+      } else {
+        previous.classes.push(...decoration[2].split(/\s+/));
+      }
+      continue;
+    }
+
+    const indent = rawLine.replace(/\t/g, '    ').search(/\S/);
+    const parsed = parseNodeText(line);
+    let id = parsed.id ?? `node-${usedIds.size + 1}`;
+    if (usedIds.has(id)) id = `${id}-${usedIds.size + 1}`;
+    usedIds.add(id);
+    const node: MindmapNode = { id, label: parsed.label, shape: parsed.shape, classes: [], children: [], indent };
+
+    // The parent is the nearest node above with less indentation
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else if (!root) {
+      root = node;
+    } else {
+      diagnostics.push(createLineDiagnostic('error', lines, index, 'a mindmap has only one root; attached to the root instead'));
+      root.children.push(node);
+    }
+    stack.push(node);
+    previous = node;
+  }
+
+  return { root, diagnostics };
+}
+
+function calculateNodeSize(node: MindmapNode, depth: number): { width: number; height: number } {
+  const lines = node.label.split('\n');
+  const longest = Math.max(...lines.map(line => line.length)) + (node.icon ? 3 : 0);
+  const fontScale = depth === 0 ? 1.3 : 1;
+  const width = Math.max(60, Math.min(260, longest * 7.5 * fontScale + 32));
+  const height = lines.length * 18 * fontScale + 20;
+  if (node.shape === 'circle') {
+    const size = Math.max(width, height + 20);
+    return { width: size, height: size };
+  }
+  return { width, height };
+}
+
+function countLeaves(node: MindmapNode): number {
+  return node.children.length === 0 ? 1 : node.children.reduce((sum, child) => sum + countLeaves(child), 0);
+}
+
+// Centre of every node: each subtree gets an angle in proportion to its leaves
+function layoutRadial(root: MindmapNode): Map<string, { x: number; y: number }> {
+  const centres = new Map<string, { x: number; y: number }>();
+  const place = (node: MindmapNode, depth: number, startAngle: number, endAngle: number) => {
+    const angle = (startAngle + endAngle) / 2;
+    const radius = depth * RING_SPACING;
+    centres.set(node.id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+
+    const total = countLeaves(node);
+    let cursor = startAngle;
+    node.children.forEach(child => {
+      const span = (endAngle - startAngle) * countLeaves(child) / total;
+      place(child, depth + 1, cursor, cursor + span);
+      cursor += span;
+    });
+  };
+  place(root, 0, -Math.PI / 2, Math.PI * 1.5);
+  return centres;
+}
+
+// Centre of every node: the root's branches are split between its right and left,
+// balancing the number of leaves on each side, and each side grows outwards
+function layoutTree(
+  root: MindmapNode,
+  sizes: Map<string, { width: number; height: number }>
+): { centres: Map<string, { x: number; y: number }>; sides: Map<string, 'left' | 'right'> } {
+  const centres = new Map<string, { x: number; y: number }>([[root.id, { x: 0, y: 0 }]]);
+  const sides = new Map<string, 'left' | 'right'>();
+
+  const right: MindmapNode[] = [];
+  const left: MindmapNode[] = [];
+  let rightLeaves = 0;
+  let leftLeaves = 0;
+  root.children.forEach(child => {
+    const leaves = countLeaves(child);
+    if (rightLeaves <= leftLeaves) {
+      right.push(child);
+      rightLeaves += leaves;
+    } else {
+      left.push(child);
+      leftLeaves += leaves;
+    }
+  });
+
+  const blockHeight = (node: MindmapNode): number => {
+    const own = sizes.get(node.id)!.height;
+    const children = node.children.reduce((sum, child) => sum + blockHeight(child), 0)
+      + TREE_SIBLING_GAP * Math.max(0, node.children.length - 1);
+    return Math.max(own, children);
+  };
+
+  const placeChildren = (children: MindmapNode[], parentX: number, parentWidth: number, centreY: number, side: 'left' | 'right') => {
+    const direction = side === 'right' ? 1 : -1;
+    const total = children.reduce((sum, child) => sum + blockHeight(child), 0)
+      + TREE_SIBLING_GAP * Math.max(0, children.length - 1);
+    let top = centreY - total / 2;
+    children.forEach(child => {
+      const size = sizes.get(child.id)!;
+      const height = blockHeight(child);
+      const x = parentX + direction * (parentWidth / 2 + TREE_LEVEL_GAP + size.width / 2);
+      const y = top + height / 2;
+      centres.set(child.id, { x, y });
+      sides.set(child.id, side);
+      placeChildren(child.children, x, size.width, y, side);
+      top += height + TREE_SIBLING_GAP;
+    });
+  };
+
+  const rootWidth = sizes.get(root.id)!.width;
+  placeChildren(right, 0, rootWidth, 0, 'right');
+  placeChildren(left, 0, rootWidth, 0, 'left');
+  return { centres, sides };
+}
+
+export function layoutMindmap(parsed: ParsedMindmap, options: ConversionOptions = {}): ReactFlowData {
+  const { root } = parsed;
+  if (!root) {
+    return { nodes: [], edges: [] };
+  }
+  const layout: MindmapLayout = options.mindmapLayout ?? 'radial';
+
+  const all: Array<{ node: MindmapNode; parent?: MindmapNode; depth: number; color: string }> = [];
+  const collect = (node: MindmapNode, parent: MindmapNode | undefined, depth: number, color: string) => {
+    all.push({ node, parent, depth, color });
+    node.children.forEach((child, index) =>
+      collect(child, node, depth + 1, depth === 0 ? BRANCH_COLORS[index % BRANCH_COLORS.length] : color)
+    );
+  };
+  collect(root, undefined, 0, ROOT_COLOR);
+
+  const sizes = new Map(all.map(({ node, depth }) => [node.id, calculateNodeSize(node, depth)]));
+  const { centres, sides } = layout === 'tree'
+    ? layoutTree(root, sizes)
+    : { centres: layoutRadial(root), sides: new Map<string, 'left' | 'right'>() };
+
+  const nodes: Node[] = all.map(({ node, parent, depth, color }) => {
+    const size = sizes.get(node.id)!;
+    const centre = centres.get(node.id) ?? { x: 0, y: 0 };
+    return {
+      id: node.id,
+      type: 'mindmap',
+      position: { x: centre.x - size.width / 2, y: centre.y - size.height / 2 },
+      data: {
+        label: node.label,
+        shape: node.shape,
+        icon: node.icon,
+        color,
+        depth,
+        parentId: parent?.id, // Lets a collapsed branch hide everything below it
+        childCount: node.children.length,
+      },
+      className: node.classes.length > 0 ? node.classes.join(' ') : undefined,
+      style: { width: size.width, height: size.height },
+      sourcePosition: sides.get(node.id) === 'left' ? Position.Left : Position.Right,
+      targetPosition: sides.get(node.id) === 'left' ? Position.Right : Position.Left,
+    };
+  });
+
+  // Tree edges run from the side facing the child; radial edges join the centres
+  const edges: Edge[] = all.filter(({ parent }) => parent).map(({ node, parent, depth, color }) => {
+    const side = sides.get(node.id);
+    return {
+      id: `branch-${parent!.id}-${node.id}`,
+      source: parent!.id,
+      target: node.id,
+      sourceHandle: side ?? 'centre',
+      targetHandle: side === 'left' ? 'right' : side === 'right' ? 'left' : 'centre',
+      type: layout === 'tree' ? 'default' : 'straight',
+      style: { stroke: color, strokeWidth: Math.max(1.5, 6 - depth * 1.5) },
+    };
+  });
+
+  return { nodes, edges };
+}
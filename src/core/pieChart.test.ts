@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parsePieChart } from './pieChart';
+import { convertMermaidToReactFlow } from './mermaidToReactFlow';
+
+const PIE = `pie showData title Pets
+    "Dogs" : 40
+    "Cats" : 60`;
+
+describe('pie charts', () => {
+  it('parses the title and slices', () => {
+    const parsed = parsePieChart(PIE);
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.title).toBe('Pets');
+    expect(parsed.showData).toBe(true);
+    expect(parsed.slices.map(({ label, value }) => [label, value])).toEqual([
+      ['Dogs', 40],
+      ['Cats', 60],
+    ]);
+  });
+
+  it('converts to the chart and one legend node per slice', async () => {
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(PIE);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.type, node.data.label])).toEqual([
+      ['pie', 'pieChart', 'Pets'],
+      ['legend-0', 'pieLegend', 'Dogs'],
+      ['legend-1', 'pieLegend', 'Cats'],
+    ]);
+    expect(nodes.slice(1).map(node => [node.data.value, node.data.percentage, node.data.showData])).toEqual([
+      [40, 40, true],
+      [60, 60, true],
+    ]);
+    expect(edges).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Mermaid pie chart conversion: the slices are drawn by a single SVG pie node,
+ * with one draggable legend node per slice beside it.
+ * Format: pie showData, title Pets, "Dogs" : 386, "Cats" : 85
+ */
+
+import { Node } from 'reactflow';
+import type { ReactFlowData } from './mermaidToReactFlow';
+import { ConversionDiagnostic, createLineDiagnostic } from './diagnostics';
+
+export interface PieSlice {
+  label: string;
+  value: number;
+  color: string;
+}
+
+// Statements that only affect Mermaid's own rendering
+const IGNORED_STATEMENTS = /^(accTitle|accDescr)\b/;
+
+const SLICE_PATTERN = /^"([^"]*)"\s*:\s*(-?\d+(?:\.\d+)?|-?\.\d+)$/;
+
+const SLICE_COLORS = ['#6366F1', '#F59E0B', '#10B981', '#EC4899', '#0EA5E9', '#8B5CF6',
+  '#EF4444', '#14B8A6', '#F97316', '#84CC16', '#64748B', '#A855F7'];
+
+const PIE_SIZE = 360;
+const LEGEND_GAP = 40;
+const LEGEND_ROW_HEIGHT = 28;
+
+export interface ParsedPieChart {
+  title?: string;
+  showData: boolean;
+  slices: PieSlice[];
+  diagnostics: ConversionDiagnostic[];
+}
+
+export function parsePieChart(code: string): ParsedPieChart {
+  const lines = code.split('\n');
+  const slices: PieSlice[] = [];
+  const diagnostics: ConversionDiagnostic[] = [];
+  let title: string | undefined;
+  let showData = false;
+  let seenHeader = false;
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%%') || IGNORED_STATEMENTS.test(line)) continue;
+
+    if (!seenHeader) {
+      seenHeader = true;
+      // The header may carry showData and the title itself: pie showData title Pets
+      const headerMatch = line.match(/^pie\b(\s+showData\b)?(?:\s+title\s+(.*))?\s*$/);
+      if (headerMatch) {
+        showData = Boolean(headerMatch[1]);
+        title = headerMatch[2]?.trim() || undefined;
+        continue;
+      }
+    }
+
+    if (line === 'showData') {
+      showData = true;
+      continue;
+    }
+
+    const titleMatch = line.match(/^title\s+(.*)$/);
+    if (titleMatch) {
+      title = titleMatch[1].trim();
+      continue;
+    }
+
+    const sliceMatch = line.match(SLICE_PATTERN);
+    if (sliceMatch) {
+      const value = Number(sliceMatch[2]);
+      if (value < 0) {
+        diagnostics.push(createLineDiagnostic('error', lines, index, `slice \`${sliceMatch[1]}\` has a negative value, ignored`));
+        continue;
+      }
+      slices.push({ label: sliceMatch[1], value, color: SLICE_COLORS[slices.length % SLICE_COLORS.length] });
+      continue;
+    }
+
+    diagnostics.push(createLineDiagnostic('warning', lines, index, 'unrecognised pie chart statement, ignored'));
+  }
+
+  return { title, showData, slices, diagnostics };
+}
+
+export function layoutPieChart(parsed: ParsedPieChart): ReactFlowData {
+  const { title, showData, slices } = parsed;
+  if (slices.length === 0) {
+    return { nodes: [], edges: [] };
+  }
+
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+
+  const nodes: Node[] = [{
+    id: 'pie',
+    type: 'pieChart',
+    position: { x: 0, y: 0 },
+    data: { label: title ?? '', title, slices, outlined: true },
+    style: { width: PIE_SIZE, height: PIE_SIZE },
+  }];
+
+  // The legend starts level with the top of the pie; each entry can be dragged on its own
+  slices.forEach((slice, index) => {
+    const percentage = total > 0 ? (slice.value / total) * 100 : 0;
+    const text = showData ? `${slice.label} [${slice.value}]` : slice.label;
+    nodes.push({
+      id: `legend-${index}`,
+      type: 'pieLegend',
+      position: { x: PIE_SIZE + LEGEND_GAP, y: index * LEGEND_ROW_HEIGHT },
+      data: {
+        label: slice.label,
+        value: slice.value,
+        color: slice.color,
+        percentage,
+        showData
+      },
+      style: { width: Math.max(120, text.length * 7.5 + 80), height: LEGEND_ROW_HEIGHT - 6 },
+    });
+  });
+
+  return { nodes, edges: [] };
+}
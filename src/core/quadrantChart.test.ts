@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuadrantChart } from './quadrantChart';
+import { convertMermaidToReactFlow } from './mermaidToReactFlow';
+
+const QUADRANT = `quadrantChart
+    title Reach
+    x-axis Low --> High
+    y-axis Low --> High
+    quadrant-1 Expand
+    Campaign A: [0.3, 0.6]`;
+
+describe('quadrant charts', () => {
+  it('parses the axes, quadrants and points', () => {
+    const { chart, diagnostics } = parseQuadrantChart(QUADRANT);
+    expect(diagnostics).toEqual([]);
+    expect(chart).toMatchObject({
+      title: 'Reach',
+      xAxis: { left: 'Low', right: 'High' },
+      yAxis: { bottom: 'Low', top: 'High' },
+      quadrants: ['Expand'],
+      points: [{ label: 'Campaign A', x: 0.3, y: 0.6 }],
+    });
+  });
+
+  it('converts to the chart and one node per point, placed by its coordinates', async () => {
+    const { nodes, diagnostics } = await convertMermaidToReactFlow(QUADRANT);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.type, node.parentNode])).toEqual([
+      ['quadrant-chart', 'quadrantChart', undefined],
+      ['point-0', 'quadrantPoint', 'quadrant-chart'],
+    ]);
+
+    const [chart, point] = nodes;
+    expect(chart.data).toMatchObject({
+      title: 'Reach',
+      xAxis: { left: 'Low', right: 'High' },
+      yAxis: { bottom: 'Low', top: 'High' },
+    });
+    expect(chart.data.quadrants[0].label).toBe('Expand');
+
+    const size = Number(chart.style?.width);
+    const radius = Number(point.style?.width) / 2;
+    expect(point.data).toMatchObject({ label: 'Campaign A', x: 0.3, y: 0.6 });
+    expect(point.position.x + radius).toBeCloseTo(0.3 * size);
+    expect(point.position.y + radius).toBeCloseTo(0.4 * size);
+  });
+});
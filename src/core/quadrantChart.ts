@@ -0,0 +1,198 @@
+/**
+ * Mermaid quadrantChart conversion: the four quadrants and axis labels form a background
+ * group, and each point becomes a labelled node placed inside it by its coordinates.
+ * Format: x-axis Low --> High, quadrant-1 Expand, Campaign A: [0.3, 0.6] radius: 8, color: #ff3300
+ */
+
+import { Node } from 'reactflow';
+import type { ReactFlowData } from './mermaidToReactFlow';
+import { ConversionDiagnostic, createLineDiagnostic } from './diagnostics';
+
+interface PointStyle {
+  radius?: number;
+  color?: string;
+  strokeColor?: string;
+  strokeWidth?: number;
+}
+
+interface QuadrantPoint extends PointStyle {
+  label: string;
+  x: number;
+  y: number;
+  className?: string;
+  lineIndex: number;
+}
+
+interface QuadrantChartInfo {
+  title?: string;
+  xAxis: { left?: string; right?: string };
+  yAxis: { bottom?: string; top?: string };
+  quadrants: Array<string | undefined>; // quadrant-1 (top right) to quadrant-4 (bottom right)
+  points: QuadrantPoint[];
+  classes: Map<string, PointStyle>;
+}
+
+// Statements that only affect Mermaid's own rendering
+const IGNORED_STATEMENTS = /^(accTitle|accDescr)\b/;
+
+const POINT_PATTERN = /^("[^"]*"|[^:[\]]+?)(?::::([\w-]+))?\s*:\s*\[\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\]\s*(.*)$/;
+
+const CHART_SIZE = 500;
+const DEFAULT_RADIUS = 5;
+const DEFAULT_POINT_COLOR = '#4F46E5';
+
+// Fills in Mermaid's quadrant order: top right, top left, bottom left, bottom right
+const QUADRANT_FILLS = ['#E0E7FF', '#EDE9FE', '#F1F5F9', '#E0F2FE'];
+
+function unquote(text: string): string {
+  return text.trim().replace(/^"(.*)"$/, '$1');
+}
+
+// Style lists such as `radius: 10, color: #ff3300, stroke-color: #10f0f0, stroke-width: 5px`
+function parsePointStyle(text: string): PointStyle | undefined {
+  const style: PointStyle = {};
+  for (const entry of text.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(radius|color|stroke-color|stroke-width)\s*:\s*(\S+)$/);
+    if (!match) return undefined;
+    const [, key, value] = match;
+    if (key === 'radius') style.radius = parseFloat(value);
+    else if (key === 'color') style.color = value;
+    else if (key === 'stroke-color') style.strokeColor = value;
+    else style.strokeWidth = parseFloat(value);
+  }
+  return style;
+}
+
+export interface ParsedQuadrantChart {
+  chart: QuadrantChartInfo;
+  diagnostics: ConversionDiagnostic[];
+}
+
+export function parseQuadrantChart(code: string): ParsedQuadrantChart {
+  const lines = code.split('\n');
+  const diagnostics: ConversionDiagnostic[] = [];
+  const chart: QuadrantChartInfo = { xAxis: {}, yAxis: {}, quadrants: [], points: [], classes: new Map() };
+  let seenHeader = false;
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%%') || IGNORED_STATEMENTS.test(line)) continue;
+
+    if (!seenHeader) {
+      seenHeader = true;
+      if (/^quadrantChart\b/.test(line)) continue;
+    }
+
+    const titleMatch = line.match(/^title\s+(.*)$/);
+    if (titleMatch) {
+      chart.title = unquote(titleMatch[1]);
+      continue;
+    }
+
+    // x-axis Low --> High; the second label is optional
+    const axisMatch = line.match(/^([xy])-axis\s+(.*?)(?:\s*-->\s*(.*))?$/);
+    if (axisMatch) {
+      const [, axis, from, to] = axisMatch;
+      if (axis === 'x') {
+        chart.xAxis = { left: unquote(from), right: to !== undefined ? unquote(to) : undefined };
+      } else {
+        chart.yAxis = { bottom: unquote(from), top: to !== undefined ? unquote(to) : undefined };
+      }
+      continue;
+    }
+
+    const quadrantMatch = line.match(/^quadrant-([1-4])\s+(.*)$/);
+    if (quadrantMatch) {
+      chart.quadrants[Number(quadrantMatch[1]) - 1] = unquote(quadrantMatch[2]);
+      continue;
+    }
+
+    const classDefMatch = line.match(/^classDef\s+([\w-]+)\s+(.*)$/);
+    if (classDefMatch) {
+      const style = parsePointStyle(classDefMatch[2]);
+      if (style) {
+        chart.classes.set(classDefMatch[1], style);
+      } else {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, `unrecognised style in class \`${classDefMatch[1]}\`, ignored`));
+      }
+      continue;
+    }
+
+    const pointMatch = line.match(POINT_PATTERN);
+    if (pointMatch) {
+      const [, label, className, xText, yText, styleText] = pointMatch;
+      let x = Number(xText);
+      let y = Number(yText);
+      if (!(x >= 0 && x <= 1 && y >= 0 && y <= 1)) {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, 'point coordinates must be between 0 and 1, clamped'));
+        x = Math.min(1, Math.max(0, x || 0));
+        y = Math.min(1, Math.max(0, y || 0));
+      }
+      let style = parsePointStyle(styleText);
+      if (!style) {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, 'unrecognised point style, ignored'));
+        style = {};
+      }
+      chart.points.push({ label: unquote(label), x, y, className, lineIndex: index, ...style });
+      continue;
+    }
+
+    diagnostics.push(createLineDiagnostic('warning', lines, index, 'unrecognised quadrant chart statement, ignored'));
+  }
+
+  // Classes may be defined after the points that use them
+  for (const point of chart.points) {
+    if (point.className && !chart.classes.has(point.className)) {
+      diagnostics.push(createLineDiagnostic('warning', lines, point.lineIndex, `undefined class \`${point.className}\`, ignored`));
+    }
+  }
+
+  return { chart, diagnostics };
+}
+
+export function layoutQuadrantChart(parsed: ParsedQuadrantChart): ReactFlowData {
+  const { chart } = parsed;
+  const chartId = 'quadrant-chart';
+
+  // The quadrants precede the points they contain
+  const nodes: Node[] = [{
+    id: chartId,
+    type: 'quadrantChart',
+    position: { x: 0, y: 0 },
+    data: {
+      label: chart.title ?? '',
+      title: chart.title,
+      xAxis: chart.xAxis,
+      yAxis: chart.yAxis,
+      quadrants: [0, 1, 2, 3].map(index => ({ label: chart.quadrants[index], fill: QUADRANT_FILLS[index] })),
+    },
+    style: { width: CHART_SIZE, height: CHART_SIZE, zIndex: -1 },
+    connectable: false,
+  }];
+
+  chart.points.forEach((point, index) => {
+    // A point's own style wins over its class, which wins over the defaults
+    const classStyle = point.className ? chart.classes.get(point.className) : undefined;
+    const radius = point.radius ?? classStyle?.radius ?? DEFAULT_RADIUS;
+    nodes.push({
+      id: `point-${index}`,
+      type: 'quadrantPoint',
+      parentNode: chartId,
+      extent: 'parent',
+      position: { x: point.x * CHART_SIZE - radius, y: (1 - point.y) * CHART_SIZE - radius },
+      data: {
+        label: point.label,
+        x: point.x,
+        y: point.y,
+        color: point.color ?? classStyle?.color ?? DEFAULT_POINT_COLOR,
+        strokeColor: point.strokeColor ?? classStyle?.strokeColor,
+        strokeWidth: point.strokeWidth ?? classStyle?.strokeWidth,
+        outlined: true
+      },
+      style: { width: radius * 2, height: radius * 2 },
+      connectable: false,
+    });
+  });
+
+  return { nodes, edges: [] };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseStateDiagram } from './stateDiagram';
+import { convertMermaidToReactFlow } from './mermaidToReactFlow';
+
+const STATE_DIAGRAM = `stateDiagram-v2
+    [*] --> Idle
+    Idle --> Running : start
+    Running --> [*]`;
+
+describe('state diagrams', () => {
+  it('parses states and transitions, with [*] as start and end states', () => {
+    const parsed = parseStateDiagram(STATE_DIAGRAM);
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.nodes.map(node => [node.id, node.shape])).toEqual([
+      ['__start', 'start'],
+      ['Idle', 'round'],
+      ['Running', 'round'],
+      ['__end', 'end'],
+    ]);
+    expect(parsed.edges.map(edge => [edge.source, edge.target, edge.label])).toEqual([
+      ['__start', 'Idle', ''],
+      ['Idle', 'Running', 'start'],
+      ['Running', '__end', ''],
+    ]);
+  });
+
+  it('converts to a node per state', async () => {
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(STATE_DIAGRAM);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.data.label])).toEqual([
+      ['__start', ''],
+      ['Idle', 'Idle'],
+      ['Running', 'Running'],
+      ['__end', ''],
+    ]);
+    expect(edges).toHaveLength(3);
+  });
+
+  it('nests composite states, splitting concurrent regions into their own containers', async () => {
+    const { nodes, edges, diagnostics } = await convertMermaidToReactFlow(`stateDiagram-v2
+    state Active {
+      [*] --> Working
+      --
+      [*] --> Listening
+    }
+    state fork_state <<fork>>
+    [*] --> Active
+    note right of Active : busy`);
+    expect(diagnostics).toEqual([]);
+    expect(nodes.map(node => [node.id, node.type, node.parentNode, node.data.shape])).toEqual([
+      ['Active', 'group', undefined, undefined],
+      ['Active__region1', 'group', 'Active', undefined],
+      ['Active__region2', 'group', 'Active', undefined],
+      ['Active__start', 'custom', 'Active__region1', 'start'],
+      ['Working', 'custom', 'Active__region1', 'round'],
+      ['Active__region2__start', 'custom', 'Active__region2', 'start'],
+      ['Listening', 'custom', 'Active__region2', 'round'],
+      ['fork_state', 'custom', undefined, 'fork'],
+      ['__start', 'custom', undefined, 'start'],
+      ['Active__note1', 'custom', undefined, 'note'],
+    ]);
+    expect(edges.map(edge => [edge.source, edge.target])).toContainEqual(['Active', 'Active__note1']);
+  });
+});
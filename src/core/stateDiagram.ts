@@ -0,0 +1,321 @@
+/**
+ * Mermaid stateDiagram / stateDiagram-v2 parsing. States, pseudo-states and notes are
+ * mapped onto flowchart nodes and composite states onto subgraphs, so state diagrams
+ * go through the same layout as flowcharts.
+ * Format: [*] --> Idle, Idle --> Running : start, state Running { ... }
+ */
+
+import type { MermaidNode, MermaidEdge, SubgraphInfo, ParsedFlowchart } from './mermaidToReactFlow';
+import { ConversionDiagnostic, createLineDiagnostic } from './diagnostics';
+import { FlowDirection, normalizeDirection } from './flowchartParser';
+import { MermaidStyle, parseStyleDeclarations } from './mermaidStyles';
+
+const STATE_REF = '([\\w.]+|\\[\\*\\])(?::::([\\w-]+))?';
+const TRANSITION_PATTERN = new RegExp(`^${STATE_REF}\\s*-->\\s*${STATE_REF}\\s*(?::\\s*(.*))?$`);
+
+const PSEUDO_STATE_SHAPES: Record<string, string> = {
+  choice: 'choice',
+  fork: 'fork',
+  join: 'fork',
+};
+
+// Statements that only affect Mermaid's own rendering
+const IGNORED_STATEMENTS = /^(hide empty description|scale\s)/;
+
+// Where new states go: the top level, a composite state, or one of its concurrent regions
+interface Scope {
+  subgraph?: SubgraphInfo;
+  composite?: SubgraphInfo;
+  regionCount: number;
+}
+
+export function parseStateDiagram(code: string): ParsedFlowchart {
+  const lines = code.split('\n');
+  const nodes: MermaidNode[] = [];
+  const edges: MermaidEdge[] = [];
+  const subgraphs: SubgraphInfo[] = [];
+  const diagnostics: ConversionDiagnostic[] = [];
+  const nodeMap = new Map<string, MermaidNode>();
+  const subgraphMap = new Map<string, SubgraphInfo>();
+  const classDefs = new Map<string, MermaidStyle>();
+  const scopes: Scope[] = [{ regionCount: 0 }];
+  let direction: FlowDirection = 'TB';
+  let openNote: { target: string; text: string[] } | null = null;
+  let noteCount = 0;
+  let seenHeader = false;
+
+  const scope = () => scopes[scopes.length - 1];
+
+  const declareState = (id: string, shape: string = 'round'): MermaidNode => {
+    let node = nodeMap.get(id);
+    if (!node) {
+      const subgraph = scope().subgraph;
+      node = { id, label: id, shape, subgraph: subgraph?.id };
+      nodes.push(node);
+      nodeMap.set(id, node);
+      subgraph?.nodes.push(id);
+    }
+    return node;
+  };
+
+  // [*] is a separate start and end pseudo-state in every composite state and region
+  const resolveState = (ref: string, role: 'start' | 'end', className?: string): string => {
+    if (ref !== '[*]') {
+      const node = declareState(ref);
+      if (className) node.classes = [...(node.classes ?? []), className];
+      return node.id;
+    }
+    const node = declareState(`${scope().subgraph?.id ?? ''}__${role}`, role);
+    node.label = '';
+    return node.id;
+  };
+
+  const addNote = (target: string, text: string) => {
+    const note = declareState(`${target}__note${++noteCount}`, 'note');
+    note.label = text;
+    edges.push({ source: target, target: note.id, type: '-.-', markerStart: 'none', markerEnd: 'none' });
+  };
+
+  const addSubgraph = (info: SubgraphInfo, after?: SubgraphInfo) => {
+    // Parents must precede their children for React Flow
+    subgraphs.splice(after ? subgraphs.indexOf(after) + 1 : subgraphs.length, 0, info);
+    subgraphMap.set(info.id, info);
+  };
+
+  const createRegion = (composite: SubgraphInfo, index: number): SubgraphInfo => {
+    const region: SubgraphInfo = {
+      id: `${composite.id}__region${index}`,
+      title: '',
+      nodes: [],
+      parent: composite.id,
+      style: { 'stroke-dasharray': '5 5' }
+    };
+    const siblings = subgraphs.filter(sg => sg.parent === composite.id);
+    addSubgraph(region, siblings[siblings.length - 1] ?? composite);
+    return region;
+  };
+
+  const styleStatements: Array<{ ids: string[]; className?: string; style?: MermaidStyle; index: number }> = [];
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+
+    if (openNote) {
+      if (/^end\s+note$/i.test(line)) {
+        addNote(openNote.target, openNote.text.join('\n'));
+        openNote = null;
+      } else {
+        openNote.text.push(line);
+      }
+      continue;
+    }
+
+    if (!line || line.startsWith('%%')) continue;
+
+    if (!seenHeader) {
+      seenHeader = true;
+      if (/^stateDiagram(-v2)?\b/.test(line)) continue;
+    }
+
+    if (IGNORED_STATEMENTS.test(line)) continue;
+
+    const directionMatch = line.match(/^direction\s+(\w+)$/);
+    if (directionMatch) {
+      const normalized = normalizeDirection(directionMatch[1]);
+      const composite = scope().composite;
+      if (!normalized) {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, `unknown direction \`${directionMatch[1]}\`, ignored`));
+      } else if (composite) {
+        composite.direction = normalized;
+      } else {
+        direction = normalized;
+      }
+      continue;
+    }
+
+    const compositeMatch = line.match(/^state\s+(?:"([^"]*)"\s+as\s+)?([\w.]+)\s*\{$/);
+    if (compositeMatch) {
+      const [, description, id] = compositeMatch;
+      let composite = subgraphMap.get(id);
+      if (!composite) {
+        composite = { id, title: description ?? id, nodes: [], parent: scope().subgraph?.id };
+        addSubgraph(composite);
+      }
+      scopes.push({ subgraph: composite, composite, regionCount: 0 });
+      continue;
+    }
+
+    if (line === '}') {
+      if (scopes.length > 1) {
+        scopes.pop();
+      } else {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, 'unexpected `}`, ignored'));
+      }
+      continue;
+    }
+
+    // -- splits a composite state into concurrent regions
+    if (line === '--') {
+      const current = scope();
+      if (!current.composite) {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, 'concurrency separator outside a composite state, ignored'));
+        continue;
+      }
+      if (current.regionCount === 0) {
+        // Everything declared so far becomes the first region
+        const first = createRegion(current.composite, 1);
+        nodes.filter(n => n.subgraph === current.composite!.id).forEach(n => {
+          n.subgraph = first.id;
+          first.nodes.push(n.id);
+        });
+        current.composite.nodes = [];
+        subgraphs.filter(sg => sg.parent === current.composite!.id && sg !== first).forEach(sg => {
+          sg.parent = first.id;
+        });
+        current.regionCount = 1;
+      }
+      current.regionCount++;
+      current.subgraph = createRegion(current.composite, current.regionCount);
+      continue;
+    }
+
+    const transitionMatch = line.match(TRANSITION_PATTERN);
+    if (transitionMatch) {
+      const [, sourceRef, sourceClass, targetRef, targetClass, label] = transitionMatch;
+      edges.push({
+        source: resolveState(sourceRef, 'start', sourceClass),
+        target: resolveState(targetRef, 'end', targetClass),
+        label: label?.trim() ?? '',
+        type: '-->',
+        markerStart: 'none',
+        markerEnd: 'arrow'
+      });
+      continue;
+    }
+
+    const pseudoStateMatch = line.match(/^state\s+([\w.]+)\s+<<(\w+)>>$/);
+    if (pseudoStateMatch) {
+      const [, id, kind] = pseudoStateMatch;
+      const shape = PSEUDO_STATE_SHAPES[kind.toLowerCase()];
+      if (!shape) {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, `unsupported state type \`<<${kind}>>\`, drawn as a state`));
+      }
+      const node = declareState(id);
+      if (shape) {
+        node.shape = shape;
+        node.label = '';
+      }
+      continue;
+    }
+
+    const declarationMatch = line.match(/^state\s+(?:"([^"]*)"\s+as\s+([\w.]+)|([\w.]+))$/);
+    if (declarationMatch) {
+      const [, description, aliasedId, plainId] = declarationMatch;
+      const node = declareState(aliasedId ?? plainId);
+      if (description !== undefined) node.label = description;
+      continue;
+    }
+
+    const noteMatch = line.match(/^note\s+(?:left|right)\s+of\s+([\w.]+)\s*(?::\s*(.*))?$/i);
+    if (noteMatch) {
+      const [, target, text] = noteMatch;
+      declareState(target);
+      if (text !== undefined) {
+        addNote(target, text.trim());
+      } else {
+        openNote = { target, text: [] };
+      }
+      continue;
+    }
+
+    const classDefMatch = line.match(/^classDef\s+([\w-]+)\s+(.+)$/);
+    if (classDefMatch) {
+      classDefs.set(classDefMatch[1], parseStyleDeclarations(classDefMatch[2]));
+      continue;
+    }
+
+    const classMatch = line.match(/^class\s+([\w.,\s]+?)\s+([\w-]+)$/);
+    if (classMatch) {
+      styleStatements.push({ ids: classMatch[1].split(',').map(id => id.trim()), className: classMatch[2], index });
+      continue;
+    }
+
+    const styleMatch = line.match(/^style\s+([\w.]+)\s+(.+)$/);
+    if (styleMatch) {
+      styleStatements.push({ ids: [styleMatch[1]], style: parseStyleDeclarations(styleMatch[2]), index });
+      continue;
+    }
+
+    // A description; repeated lines add further lines of text
+    const descriptionMatch = line.match(/^([\w.]+)\s*:\s*(.+)$/);
+    if (descriptionMatch) {
+      const [, id, description] = descriptionMatch;
+      const composite = subgraphMap.get(id);
+      if (composite) {
+        composite.title = description.trim();
+      } else {
+        const node = declareState(id);
+        node.label = node.label === id ? description.trim() : `${node.label}\n${description.trim()}`;
+      }
+      continue;
+    }
+
+    diagnostics.push(createLineDiagnostic('warning', lines, index, 'unrecognised state diagram statement, ignored'));
+  }
+
+  if (openNote) {
+    diagnostics.push(createLineDiagnostic('error', lines, lines.length - 1, 'note is missing `end note`'));
+  }
+  scopes.slice(1).forEach(unclosed => {
+    diagnostics.push(createLineDiagnostic(
+      'error', lines, lines.length - 1, `state \`${unclosed.composite?.id}\` is missing its closing \`}\``
+    ));
+  });
+
+  // Transitions to a composite state connect to its container rather than to a node of its own
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const composite = subgraphMap.get(nodes[i].id);
+    if (composite) {
+      const [node] = nodes.splice(i, 1);
+      nodeMap.delete(node.id);
+      if (node.classes) {
+        composite.classes = [...(composite.classes ?? []), ...node.classes];
+      }
+      subgraphs.forEach(sg => {
+        sg.nodes = sg.nodes.filter(id => id !== node.id);
+      });
+    }
+  }
+
+  styleStatements.forEach(({ ids, className, style, index }) => {
+    ids.forEach(id => {
+      const target = nodeMap.get(id) ?? subgraphMap.get(id);
+      if (!target) {
+        diagnostics.push(createLineDiagnostic('warning', lines, index, `style references undefined state \`${id}\`, ignored`));
+      } else if (className) {
+        target.classes = [...(target.classes ?? []), className];
+      } else {
+        target.style = { ...target.style, ...style };
+      }
+    });
+  });
+
+  [...nodes, ...subgraphs].forEach(target => {
+    const resolved = Object.assign({}, ...(target.classes ?? []).map(name => classDefs.get(name)), target.style);
+    target.style = Object.keys(resolved).length > 0 ? resolved : undefined;
+  });
+
+  // Fork and join bars lie across the flow
+  nodes.filter(node => node.shape === 'fork').forEach(node => {
+    let subgraph = node.subgraph ? subgraphMap.get(node.subgraph) : undefined;
+    while (subgraph && !subgraph.direction) {
+      subgraph = subgraph.parent ? subgraphMap.get(subgraph.parent) : undefined;
+    }
+    const flow = subgraph?.direction ?? direction;
+    if (flow === 'LR' || flow === 'RL') {
+      node.shape = 'fork-vertical';
+    }
+  });
+
+  return { nodes, edges, subgraphs, direction, diagnostics };
+}
@@ -1,14 +1,19 @@
-import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { ItemView, Notice, TFile, WorkspaceLeaf } from 'obsidian';
 import { createRoot, Root } from 'react-dom/client';
 import { ReactFlowDiagramWrapper } from './ReactFlowDiagramWrapper';
 import MermaidReactFlowPlugin from './main';
 import { detectObsidianTheme, Theme } from './themeManager';
+import { findMermaidBlocks, replaceMermaidBlock, WriteBackConflictError } from './noteWriteBack';
+import { Node } from 'reactflow';
+import { hashMermaidCode, parseLayoutLines, placedPositions, withAutoLayout, withLayoutLines, LayoutStorage, NodePosition } from './positionStorage';
 
 const VIEW_TYPE_MERMAID_REACTFLOW = 'mermaid-reactflow-view';
 
 export class MermaidReactFlowView extends ItemView {
   private root: Root | null = null;
   private mermaidCode: string = '';
+  // The text the canvas was last built from or wrote; the watcher may move mermaidCode past it
+  private canvasCode: string = '';
   private sourceFilePath: string = '';
   private blockIndex: number = 0; // Track which mermaid block in the file
   private plugin: MermaidReactFlowPlugin;
@@ -128,23 +133,10 @@ export class MermaidReactFlowView extends ItemView {
     try {
       const content = await this.plugin.app.vault.read(file as any);
 
-      // Extract all mermaid code blocks from the file
-      const mermaidRegex = /```mermaid\n([\s\S]*?)```/g;
-      const matches = [...content.matchAll(mermaidRegex)];
-
-      // Filter to only supported diagrams
-      const supportedDiagrams = matches.filter(match => {
-        const code = match[1].trim();
-        return code.startsWith('graph ') ||
-               code.startsWith('flowchart ') ||
-               code.startsWith('sequenceDiagram') ||
-               /^graph\s+(TD|TB|BT|RL|LR)/i.test(code) ||
-               /^flowchart\s+(TD|TB|BT|RL|LR)/i.test(code);
-      });
-
       // Get the specific block by index
-      if (this.blockIndex >= 0 && this.blockIndex < supportedDiagrams.length) {
-        const newCode = supportedDiagrams[this.blockIndex][1].trim();
+      const block = findMermaidBlocks(content)[this.blockIndex];
+      if (block) {
+        const newCode = block.code.trim();
 
         // Always update to the latest content
         if (newCode !== this.mermaidCode.trim()) {
@@ -174,16 +166,101 @@ export class MermaidReactFlowView extends ItemView {
     await this.refreshFromFile();
   }
 
+  // Identifies the block across edits to its text, for layouts kept in plugin data
+  private get blockKey(): string | undefined {
+    return this.sourceFilePath ? `${this.sourceFilePath}#${this.blockIndex}` : undefined;
+  }
+
+  // Layouts can only travel with a note when there is one
+  private get layoutStorage(): LayoutStorage {
+    return this.sourceFilePath ? this.plugin.data.layoutStorage : 'plugin';
+  }
+
+  private loadPositions = async (autoLayout: Node[]): Promise<{ [nodeId: string]: NodePosition } | undefined> => {
+    switch (this.layoutStorage) {
+      case 'note':
+        return withAutoLayout(parseLayoutLines(this.mermaidCode), autoLayout);
+      case 'sidecar':
+        return this.plugin.getSidecarPositions(this.sourceFilePath, this.blockIndex);
+      default:
+        return this.plugin.getPositions(hashMermaidCode(this.mermaidCode), this.blockKey);
+    }
+  }
+
+  private savePositions = async (positions: { [nodeId: string]: NodePosition }, autoLayout: Node[]) => {
+    switch (this.layoutStorage) {
+      case 'note': {
+        // Clicks and drags that end where they started leave the note alone
+        const code = withLayoutLines(this.canvasCode, placedPositions(positions, autoLayout));
+        if (code.trim() === this.canvasCode.trim()) break;
+        try {
+          await this.writeBlock(code);
+        } catch (error) {
+          if (!(error instanceof WriteBackConflictError)) throw error;
+          new Notice(`Layout not saved: ${error.message}`);
+        }
+        break;
+      }
+      case 'sidecar':
+        await this.plugin.saveSidecarPositions(this.sourceFilePath, this.blockIndex, positions);
+        break;
+      default:
+        await this.plugin.savePositions(hashMermaidCode(this.mermaidCode), positions, this.blockKey);
+    }
+  }
+
+  // Writes edited Mermaid text back over this view's block, keeping the current arrangement with it
+  private handleWriteBack = async (code: string, positions: { [nodeId: string]: NodePosition }, autoLayout: Node[]) => {
+    switch (this.layoutStorage) {
+      case 'note':
+        await this.writeBlock(withLayoutLines(code, placedPositions(positions, autoLayout)));
+        break;
+      case 'sidecar':
+        await this.writeBlock(code);
+        await this.plugin.saveSidecarPositions(this.sourceFilePath, this.blockIndex, positions);
+        break;
+      default:
+        // The new text hashes differently; carry the arrangement over so the canvas doesn't re-layout
+        await this.plugin.savePositions(hashMermaidCode(code), positions, this.blockKey);
+        await this.writeBlock(code);
+    }
+  }
+
+  // Replaces this view's block in the note; throws WriteBackConflictError if the block changed since it was loaded
+  private async writeBlock(code: string) {
+    const file = this.plugin.app.vault.getAbstractFileByPath(this.sourceFilePath);
+    if (!(file instanceof TFile)) {
+      throw new Error(`${this.sourceFilePath} no longer exists`);
+    }
+
+    const loadedCode = this.canvasCode;
+    await this.plugin.app.vault.process(file, content => replaceMermaidBlock(content, this.blockIndex, loadedCode, code));
+    this.canvasCode = code.trim();
+
+    // The file watcher may already have picked this up; either way the canvas now matches the note
+    if (this.mermaidCode.trim() !== code.trim()) {
+      this.mermaidCode = code.trim();
+      this.renderReactFlow();
+    }
+  }
+
+  private handleCanvasBuilt = (code: string) => {
+    this.canvasCode = code;
+  }
+
   private renderReactFlow() {
     if (this.root) {
       this.root.render(
         <ReactFlowDiagramWrapper
           mermaidCode={this.mermaidCode}
-          plugin={this.plugin}
+          loadPositions={this.loadPositions}
+          savePositions={this.savePositions}
           theme={this.theme}
           autoRefreshEnabled={this.autoRefreshEnabled}
           onToggleAutoRefresh={() => this.toggleAutoRefresh()}
           onReloadRequested={() => this.handleReload()}
+          onWriteBack={this.sourceFilePath ? this.handleWriteBack : undefined}
+          onCanvasBuilt={this.handleCanvasBuilt}
           sourceFilePath={this.sourceFilePath}
         />
       );
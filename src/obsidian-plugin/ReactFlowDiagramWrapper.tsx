@@ -1,39 +1,55 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { Menu, Notice } from 'obsidian';
 import { FlowDiagram } from '../standalone/components/FlowDiagram';
-import { convertMermaidToReactFlow, ReactFlowData } from '../core/mermaidToReactFlow';
+import { ProblemsList } from '../standalone/components/ProblemsList';
+import { ConversionDiagnostic } from '../core/diagnostics';
+import { convertMermaidToReactFlow, findDiagramConverter, ReactFlowData } from '../core/mermaidToReactFlow';
+import { MindmapLayout } from '../core/mindmapDiagram';
+import { serializeFlowchart } from '../core/flowchartSerializer';
 import { Node, Edge } from 'reactflow';
 import 'reactflow/dist/style.css';
-import MermaidReactFlowPlugin from './main';
-import { hashMermaidCode, applySavedPositions, extractPositions } from './positionStorage';
+import { applySavedPositions, arrangeAroundPinned, extractPositions, stripLayoutLines, NodePosition } from './positionStorage';
 import { Toolbar } from './Toolbar';
 import { Theme, getThemeColors } from './themeManager';
 import { parseMetadata } from './metadataParser';
 import { MetadataPanel } from './MetadataPanel';
+import { WriteBackConflictError } from './noteWriteBack';
 
 interface ReactFlowDiagramWrapperProps {
   mermaidCode: string;
-  plugin: MermaidReactFlowPlugin;
+  // Read and write the arranged layout wherever the plugin is set to keep it. autoLayout is the
+  // diagram's automatic layout, which the layout kept in the note only records changes to.
+  loadPositions: (autoLayout: Node[]) => Promise<{ [nodeId: string]: NodePosition } | undefined>;
+  savePositions: (positions: { [nodeId: string]: NodePosition }, autoLayout: Node[]) => Promise<void>;
   theme: Theme;
   autoRefreshEnabled: boolean;
   onToggleAutoRefresh: () => void;
   onReloadRequested?: () => void;
+  // Writes Mermaid text over the diagram's block in sourceFilePath
+  onWriteBack?: (code: string, positions: { [nodeId: string]: NodePosition }, autoLayout: Node[]) => Promise<void>;
+  // Called with the Mermaid text (layout lines included) each time the canvas is rebuilt from it
+  onCanvasBuilt?: (code: string) => void;
   sourceFilePath: string;
 }
 
 export function ReactFlowDiagramWrapper({
   mermaidCode,
-  plugin,
+  loadPositions,
+  savePositions,
   theme,
   autoRefreshEnabled,
   onToggleAutoRefresh,
   onReloadRequested,
+  onWriteBack,
+  onCanvasBuilt,
   sourceFilePath
 }: ReactFlowDiagramWrapperProps) {
   const [flowData, setFlowData] = useState<ReactFlowData>({ nodes: [], edges: [] });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ConversionDiagnostic[]>([]);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const diagramHashRef = useRef<string>('');
+  const [mindmapLayout, setMindmapLayout] = useState<MindmapLayout>('radial');
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const originalNodesRef = useRef<Node[]>([]);
   const themeColors = getThemeColors(theme);
@@ -42,26 +58,30 @@ export function ReactFlowDiagramWrapper({
   const metadata = parseMetadata(mermaidCode);
   const selectedNodeMetadata = selectedNodeId ? metadata.nodes.get(selectedNodeId) : undefined;
 
+  // Saving a layout into the note only rewrites its %% @layout lines; that mustn't reconvert the diagram
+  const diagramCode = stripLayoutLines(mermaidCode);
+  const mermaidCodeRef = useRef(mermaidCode);
+  mermaidCodeRef.current = mermaidCode;
+
   useEffect(() => {
-    if (mermaidCode) {
+    if (diagramCode) {
+      const builtFrom = mermaidCodeRef.current;
       setLoading(true);
       setError(null);
 
-      // Calculate diagram hash
-      const diagramHash = hashMermaidCode(mermaidCode);
-      diagramHashRef.current = diagramHash;
-
-      convertMermaidToReactFlow(mermaidCode)
-        .then(data => {
+      convertMermaidToReactFlow(diagramCode, { mindmapLayout })
+        .then(async data => {
           // Store original auto-layout positions
           originalNodesRef.current = data.nodes;
 
           // Load saved positions and apply them
-          const savedPositions = plugin.getPositions(diagramHash);
-          const nodesWithPositions = applySavedPositions(data.nodes, savedPositions);
+          const savedPositions = await loadPositions(data.nodes);
+          const nodesWithPositions = applySavedPositions(data.nodes, data.edges, savedPositions);
 
           setFlowData({ nodes: nodesWithPositions, edges: data.edges });
+          setDiagnostics(data.diagnostics);
           setLoading(false);
+          onCanvasBuilt?.(builtFrom);
         })
         .catch(error => {
           console.error('Error converting diagram:', error);
@@ -69,19 +89,19 @@ export function ReactFlowDiagramWrapper({
           setLoading(false);
         });
     }
-  }, [mermaidCode, plugin]);
+  }, [diagramCode, loadPositions, mindmapLayout, onCanvasBuilt]);
 
   // Save positions with debounce
-  const savePositions = useCallback((nodes: Node[]) => {
+  const schedulePositionSave = useCallback((nodes: Node[]) => {
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
     }
 
     saveTimeoutRef.current = setTimeout(() => {
       const positions = extractPositions(nodes);
-      plugin.savePositions(diagramHashRef.current, positions);
+      savePositions(positions, originalNodesRef.current);
     }, 500); // Debounce for 500ms
-  }, [plugin]);
+  }, [savePositions]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -94,8 +114,8 @@ export function ReactFlowDiagramWrapper({
 
   const handleNodesChange = useCallback((nodes: Node[]) => {
     setFlowData(prev => ({ ...prev, nodes }));
-    savePositions(nodes);
-  }, [savePositions]);
+    schedulePositionSave(nodes);
+  }, [schedulePositionSave]);
 
   const handleNodeClick = useCallback((nodeId: string) => {
     setSelectedNodeId(prev => prev === nodeId ? null : nodeId);
@@ -108,15 +128,82 @@ export function ReactFlowDiagramWrapper({
   // Manual save function
   const handleManualSave = useCallback(async () => {
     const positions = extractPositions(flowData.nodes);
-    await plugin.savePositions(diagramHashRef.current, positions);
-  }, [flowData.nodes, plugin]);
+    await savePositions(positions, originalNodesRef.current);
+  }, [flowData.nodes, savePositions]);
 
   // Reset to original auto-layout positions
   const handleReset = useCallback(() => {
     setFlowData(prev => ({ ...prev, nodes: originalNodesRef.current }));
     // Clear saved positions for this diagram
-    plugin.savePositions(diagramHashRef.current, {});
-  }, [plugin]);
+    savePositions({}, originalNodesRef.current);
+  }, [savePositions]);
+
+  const setPinned = useCallback((nodeIds: Set<string>, pinned: boolean) => {
+    const nodes = flowData.nodes.map(node =>
+      nodeIds.has(node.id) ? { ...node, data: { ...node.data, pinned } } : node
+    );
+    setFlowData(prev => ({ ...prev, nodes }));
+    schedulePositionSave(nodes);
+  }, [flowData.nodes, schedulePositionSave]);
+
+  const handleTogglePin = useCallback(() => {
+    const selected = flowData.nodes.find(node => node.id === selectedNodeId);
+    if (selected) {
+      setPinned(new Set([selected.id]), !selected.data?.pinned);
+    }
+  }, [flowData.nodes, selectedNodeId, setPinned]);
+
+  const handleUnpinAll = useCallback(() => {
+    setPinned(new Set(flowData.nodes.map(node => node.id)), false);
+  }, [flowData.nodes, setPinned]);
+
+  // Pinned nodes stay put; everything else goes back to the auto layout, arranged around them
+  const handleRelayout = useCallback(() => {
+    const nodes = arrangeAroundPinned(originalNodesRef.current, flowData.nodes, flowData.edges);
+    setFlowData(prev => ({ ...prev, nodes }));
+    schedulePositionSave(nodes);
+  }, [flowData, schedulePositionSave]);
+
+  const handleNodeContextMenu = useCallback((event: React.MouseEvent, node: Node) => {
+    event.preventDefault();
+    const menu = new Menu();
+    menu.addItem(item => item
+      .setTitle(node.data?.pinned ? 'Unpin node' : 'Pin node')
+      .setIcon(node.data?.pinned ? 'pin-off' : 'pin')
+      .onClick(() => setPinned(new Set([node.id]), !node.data?.pinned))
+    );
+    menu.addItem(item => item
+      .setTitle('Arrange unpinned nodes')
+      .setIcon('layout-dashboard')
+      .onClick(handleRelayout)
+    );
+    menu.showAtMouseEvent(event.nativeEvent);
+  }, [setPinned, handleRelayout]);
+
+  // Serializes the canvas into the note; returns whether anything was written
+  const handleWriteBack = useCallback(async () => {
+    if (!onWriteBack) return false;
+
+    const code = serializeFlowchart(flowData.nodes, flowData.edges, diagramCode).trim();
+    try {
+      await onWriteBack(code, extractPositions(flowData.nodes), originalNodesRef.current);
+      return true;
+    } catch (error) {
+      if (error instanceof WriteBackConflictError) {
+        new Notice(error.message);
+      } else {
+        console.error('Error writing diagram back to note:', error);
+        new Notice('Failed to write the diagram back to the note');
+      }
+      return false;
+    }
+  }, [flowData, diagramCode, onWriteBack]);
+
+  // Positions dragged in one layout make no sense in the other, so switching starts afresh
+  const handleMindmapLayoutChange = useCallback(async (layout: MindmapLayout) => {
+    await savePositions({}, originalNodesRef.current);
+    setMindmapLayout(layout);
+  }, [savePositions]);
 
   if (!mermaidCode) {
     return (
@@ -165,6 +252,14 @@ export function ReactFlowDiagramWrapper({
   }
 
   if (flowData.nodes.length === 0) {
+    if (diagnostics.length > 0) {
+      return (
+        <div style={{ height: '100%', overflowY: 'auto', padding: '20px' }}>
+          <ProblemsList diagnostics={diagnostics} />
+        </div>
+      );
+    }
+
     return (
       <div style={{
         display: 'flex',
@@ -178,8 +273,8 @@ export function ReactFlowDiagramWrapper({
     );
   }
 
-  // Check if this is a sequence diagram
-  const isSequenceDiagram = mermaidCode.trim().startsWith('sequenceDiagram');
+  const converter = findDiagramConverter(mermaidCode);
+  const selectedNode = selectedNodeId ? flowData.nodes.find(node => node.id === selectedNodeId) : undefined;
 
   return (
     <div style={{
@@ -196,6 +291,14 @@ export function ReactFlowDiagramWrapper({
         autoRefreshEnabled={autoRefreshEnabled}
         onToggleAutoRefresh={onToggleAutoRefresh}
         sourceFilePath={sourceFilePath}
+        mindmapLayout={converter?.type === 'mindmap' ? mindmapLayout : undefined}
+        onMindmapLayoutChange={handleMindmapLayoutChange}
+        onWriteBack={onWriteBack && converter?.type === 'flowchart' ? handleWriteBack : undefined}
+        selectedNodePinned={selectedNode ? Boolean(selectedNode.data?.pinned) : undefined}
+        onTogglePin={handleTogglePin}
+        hasPinnedNodes={flowData.nodes.some(node => node.data?.pinned)}
+        onUnpinAll={handleUnpinAll}
+        onRelayout={handleRelayout}
       />
       <MetadataPanel
         diagramMetadata={metadata.diagram}
@@ -208,10 +311,13 @@ export function ReactFlowDiagramWrapper({
         onNodesChange={handleNodesChange}
         onEdgesChange={handleEdgesChange}
         onNodeClick={handleNodeClick}
+        onNodeContextMenu={handleNodeContextMenu}
+        pinOnDrag
         selectedNodeId={selectedNodeId || undefined}
         theme={theme}
-        fitView={!isSequenceDiagram}
+        fitView={converter?.fitView !== false}
       />
+      <ProblemsList diagnostics={diagnostics} docked />
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { Theme } from './themeManager';
+import { MindmapLayout } from '../core/mindmapDiagram';
 
 interface ToolbarProps {
   onSave: () => void;
@@ -9,6 +10,14 @@ interface ToolbarProps {
   autoRefreshEnabled: boolean;
   onToggleAutoRefresh: () => void;
   sourceFilePath: string;
+  mindmapLayout?: MindmapLayout; // Only set while a mindmap is shown
+  onMindmapLayoutChange?: (layout: MindmapLayout) => void;
+  onWriteBack?: () => Promise<boolean>; // Only set for diagrams that can be serialized
+  selectedNodePinned?: boolean; // Undefined while no node is selected
+  onTogglePin?: () => void;
+  hasPinnedNodes?: boolean;
+  onUnpinAll?: () => void;
+  onRelayout?: () => void;
 }
 
 export function Toolbar({
@@ -18,9 +27,18 @@ export function Toolbar({
   theme,
   autoRefreshEnabled,
   onToggleAutoRefresh,
-  sourceFilePath
+  sourceFilePath,
+  mindmapLayout,
+  onMindmapLayoutChange,
+  onWriteBack,
+  selectedNodePinned,
+  onTogglePin,
+  hasPinnedNodes,
+  onUnpinAll,
+  onRelayout
 }: ToolbarProps) {
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [writeStatus, setWriteStatus] = useState<'idle' | 'writing' | 'written'>('idle');
 
   const isDark = theme === 'dark';
   const hasSourceFile = sourceFilePath && sourceFilePath.length > 0;
@@ -39,6 +57,19 @@ export function Toolbar({
     }, 2000);
   };
 
+  const handleWriteBack = async () => {
+    if (!onWriteBack) return;
+    setWriteStatus('writing');
+    const written = await onWriteBack();
+    setWriteStatus(written ? 'written' : 'idle');
+
+    if (written) {
+      setTimeout(() => {
+        setWriteStatus('idle');
+      }, 2000);
+    }
+  };
+
   return (
     <div className={`mermaid-reactflow-toolbar ${isDark ? 'theme-dark' : 'theme-light'}`}>
       <div className="toolbar-section">
@@ -67,6 +98,59 @@ export function Toolbar({
           </button>
         )}
 
+        {onTogglePin && selectedNodePinned !== undefined && (
+          <button
+            className={`toolbar-button ${selectedNodePinned ? 'active' : ''}`}
+            onClick={onTogglePin}
+            title={selectedNodePinned ? 'Let relayouts move the selected node again' : 'Keep the selected node where it is when relaying out'}
+          >
+            {selectedNodePinned ? '📌 Unpin Node' : '📌 Pin Node'}
+          </button>
+        )}
+
+        {onUnpinAll && hasPinnedNodes && (
+          <button
+            className="toolbar-button"
+            onClick={onUnpinAll}
+            title="Unpin every node"
+          >
+            Unpin All
+          </button>
+        )}
+
+        {onRelayout && (
+          <button
+            className="toolbar-button"
+            onClick={onRelayout}
+            title="Lay out the unpinned nodes again, around the pinned ones"
+          >
+            🧩 Arrange Unpinned
+          </button>
+        )}
+
+        {onWriteBack && hasSourceFile && (
+          <button
+            className="toolbar-button"
+            onClick={handleWriteBack}
+            disabled={writeStatus === 'writing'}
+            title="Replace the diagram's mermaid block in the note with the current canvas"
+          >
+            {writeStatus === 'writing' ? '📝 Writing...' :
+             writeStatus === 'written' ? '✅ Written!' :
+             '📝 Write Back to Note'}
+          </button>
+        )}
+
+        {mindmapLayout && onMindmapLayoutChange && (
+          <button
+            className="toolbar-button"
+            onClick={() => onMindmapLayoutChange(mindmapLayout === 'radial' ? 'tree' : 'radial')}
+            title="Switch between a radial layout and a left/right balanced tree"
+          >
+            {mindmapLayout === 'radial' ? '🌳 Tree Layout' : '🎯 Radial Layout'}
+          </button>
+        )}
+
         {onReload && hasSourceFile && (
           <button
             className="toolbar-button"
@@ -94,8 +178,8 @@ export function Toolbar({
             🟢 Watching file for changes
           </span>
         )}
-        {!hasSourceFile && saveStatus === 'idle' && 'Positions auto-save after dragging'}
-        {hasSourceFile && !autoRefreshEnabled && saveStatus === 'idle' && 'Positions auto-save after dragging'}
+        {!hasSourceFile && saveStatus === 'idle' && 'Positions auto-save after dragging; dragged nodes are pinned'}
+        {hasSourceFile && !autoRefreshEnabled && saveStatus === 'idle' && 'Positions auto-save after dragging; dragged nodes are pinned'}
       </div>
     </div>
   );
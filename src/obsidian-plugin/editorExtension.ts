@@ -1,6 +1,7 @@
 import { EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
 import { RangeSetBuilder } from '@codemirror/state';
 import MermaidReactFlowPlugin from './main';
+import { isSupportedDiagram } from '../core/mermaidParser';
 
 class ReactFlowButtonWidget extends WidgetType {
   constructor(
@@ -88,16 +89,9 @@ function createReactFlowButtons(view: EditorView, plugin: MermaidReactFlowPlugin
           currentLine++;
         }
 
-        // Check if it's a flowchart
-        const trimmedCode = codeContent.trim();
-        const isFlowchart =
-          trimmedCode.startsWith('graph ') ||
-          trimmedCode.startsWith('flowchart ') ||
-          /^graph\s+(TD|TB|BT|RL|LR)/i.test(trimmedCode) ||
-          /^flowchart\s+(TD|TB|BT|RL|LR)/i.test(trimmedCode);
-
-        if (isFlowchart && codeContent.trim()) {
-          console.log('ReactFlow: Found flowchart at line', lineNum, 'with content:', codeContent.substring(0, 50));
+        // Check if it's a diagram type with a registered converter
+        if (isSupportedDiagram(codeContent)) {
+          console.log('ReactFlow: Found diagram at line', lineNum, 'with content:', codeContent.substring(0, 50));
           // Add button decoration after the closing ``` line
           const endLine = doc.line(endLineNum);
           const widget = Decoration.widget({
@@ -1,6 +1,8 @@
-import { Plugin, WorkspaceLeaf } from 'obsidian';
+import { Plugin, TFile, WorkspaceLeaf } from 'obsidian';
 import { MermaidReactFlowView } from './MermaidReactFlowView';
-import { SavedPositions } from './positionStorage';
+import { SavedPositions, LayoutStorage, NodePosition, getSidecarPath, hashMermaidCode } from './positionStorage';
+import { isSupportedDiagram } from '../core/mermaidParser';
+import { findMermaidBlocks } from './noteWriteBack';
 import { MermaidReactFlowSettingTab } from './settings';
 import './styles.css';
 
@@ -8,10 +10,15 @@ const VIEW_TYPE_MERMAID_REACTFLOW = 'mermaid-reactflow-view';
 
 interface PluginData {
   positions: SavedPositions;
+  // Hash of the layout last saved for each block ("note path#block index"), where a changed diagram starts from
+  latestHashes: { [blockKey: string]: string };
+  layoutStorage: LayoutStorage;
 }
 
 const DEFAULT_DATA: PluginData = {
   positions: {},
+  latestHashes: {},
+  layoutStorage: 'plugin',
 };
 
 export default class MermaidReactFlowPlugin extends Plugin {
@@ -52,6 +59,13 @@ export default class MermaidReactFlowPlugin extends Plugin {
 
     // Add settings tab
     this.addSettingTab(new MermaidReactFlowSettingTab(this.app, this));
+
+    // Reading every note waits until Obsidian has finished starting up
+    this.app.workspace.onLayoutReady(() => {
+      this.collectStalePositions().catch(error => {
+        console.error('ReactFlow: Error cleaning up saved positions:', error);
+      });
+    });
   }
 
   async activateView() {
@@ -80,13 +94,84 @@ export default class MermaidReactFlowPlugin extends Plugin {
     }
   }
 
-  async savePositions(diagramHash: string, positions: { [nodeId: string]: { x: number; y: number } }) {
+  async savePositions(diagramHash: string, positions: { [nodeId: string]: NodePosition }, blockKey?: string) {
     this.data.positions[diagramHash] = positions;
+    if (blockKey) {
+      this.data.latestHashes[blockKey] = diagramHash;
+    }
     await this.saveData(this.data);
   }
 
-  getPositions(diagramHash: string): { [nodeId: string]: { x: number; y: number } } | undefined {
-    return this.data.positions[diagramHash];
+  // Falls back to the block's last saved layout when its text has changed since
+  getPositions(diagramHash: string, blockKey?: string): { [nodeId: string]: NodePosition } | undefined {
+    const latestHash = blockKey ? this.data.latestHashes[blockKey] : undefined;
+    return this.data.positions[diagramHash] ?? (latestHash ? this.data.positions[latestHash] : undefined);
+  }
+
+  // Drops every saved layout that no block in the vault uses any more. A layout is kept while its diagram
+  // text is in some note, or while it is the latest layout of a block that still exists; everything else,
+  // such as the layouts of deleted notes and diagrams edited since, is removed.
+  private async collectStalePositions() {
+    const liveBlockKeys = new Set<string>();
+    const liveHashes = new Set<string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const content = await this.app.vault.cachedRead(file);
+      findMermaidBlocks(content).forEach((block, index) => {
+        liveBlockKeys.add(`${file.path}#${index}`);
+        liveHashes.add(hashMermaidCode(block.code));
+      });
+    }
+
+    const staleBlockKeys = Object.keys(this.data.latestHashes).filter(blockKey => !liveBlockKeys.has(blockKey));
+    staleBlockKeys.forEach(blockKey => delete this.data.latestHashes[blockKey]);
+    Object.values(this.data.latestHashes).forEach(hash => liveHashes.add(hash));
+
+    const staleHashes = Object.keys(this.data.positions).filter(hash => !liveHashes.has(hash));
+    staleHashes.forEach(hash => delete this.data.positions[hash]);
+
+    if (staleBlockKeys.length > 0 || staleHashes.length > 0) {
+      await this.saveData(this.data);
+    }
+  }
+
+  async setLayoutStorage(layoutStorage: LayoutStorage) {
+    this.data.layoutStorage = layoutStorage;
+    await this.saveData(this.data);
+  }
+
+  // The sidecar holds every diagram of the note, keyed by its index among the supported blocks
+  async getSidecarPositions(notePath: string, blockIndex: number): Promise<{ [nodeId: string]: NodePosition } | undefined> {
+    const sidecar = this.app.vault.getAbstractFileByPath(getSidecarPath(notePath));
+    if (!(sidecar instanceof TFile)) return undefined;
+
+    try {
+      const layouts = JSON.parse(await this.app.vault.read(sidecar));
+      return layouts[blockIndex];
+    } catch (error) {
+      console.error('ReactFlow: Error reading layout file:', error);
+      return undefined;
+    }
+  }
+
+  async saveSidecarPositions(notePath: string, blockIndex: number, positions: { [nodeId: string]: NodePosition }) {
+    const sidecarPath = getSidecarPath(notePath);
+    const sidecar = this.app.vault.getAbstractFileByPath(sidecarPath);
+
+    if (!(sidecar instanceof TFile)) {
+      await this.app.vault.create(sidecarPath, JSON.stringify({ [blockIndex]: positions }, null, 2) + '\n');
+      return;
+    }
+
+    await this.app.vault.process(sidecar, content => {
+      let layouts: Record<string, { [nodeId: string]: NodePosition }> = {};
+      try {
+        layouts = JSON.parse(content);
+      } catch {
+        // An unreadable layout file is replaced rather than left blocking every save
+      }
+      layouts[blockIndex] = positions;
+      return JSON.stringify(layouts, null, 2) + '\n';
+    });
   }
 
   private setupDOMObserver() {
@@ -180,14 +265,8 @@ export default class MermaidReactFlowPlugin extends Plugin {
     const source = codeEl.textContent || '';
     const trimmedSource = source.trim();
 
-    // Process flowchart/graph and sequence diagrams
-    const isSupportedDiagram = trimmedSource.startsWith('graph ') ||
-                                trimmedSource.startsWith('flowchart ') ||
-                                trimmedSource.startsWith('sequenceDiagram') ||
-                                /^graph\s+(TD|TB|BT|RL|LR)/i.test(trimmedSource) ||
-                                /^flowchart\s+(TD|TB|BT|RL|LR)/i.test(trimmedSource);
-
-    if (!isSupportedDiagram) {
+    // Only diagram types with a registered converter get a button
+    if (!isSupportedDiagram(trimmedSource)) {
       return;
     }
 
@@ -393,48 +472,7 @@ export default class MermaidReactFlowPlugin extends Plugin {
     try {
       const content = await this.app.vault.read(activeFile);
 
-      // Extract all mermaid code blocks
-      const mermaidRegex = /```mermaid\n([\s\S]*?)```/g;
-      const matches = [...content.matchAll(mermaidRegex)];
-
-      // Filter to only supported diagrams (flowcharts and sequence diagrams)
-      const supportedDiagrams = matches.filter(match => {
-        const code = match[1].trim();
-
-        // Check if it's a supported diagram type
-        // Need to skip metadata comments and find the actual diagram declaration
-        const lines = code.split('\n');
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-
-          // Skip comment lines
-          if (trimmedLine.startsWith('%%')) {
-            continue;
-          }
-
-          // Check for diagram type in first non-comment line
-          if (trimmedLine.startsWith('graph ') ||
-              trimmedLine.startsWith('flowchart ') ||
-              trimmedLine.startsWith('sequenceDiagram') ||
-              /^graph\s+(TD|TB|BT|RL|LR)/i.test(trimmedLine) ||
-              /^flowchart\s+(TD|TB|BT|RL|LR)/i.test(trimmedLine)) {
-            return true;
-          }
-
-          // If we hit a non-comment, non-empty line that's not a diagram type, stop
-          if (trimmedLine.length > 0) {
-            break;
-          }
-        }
-
-        return false;
-      });
-
-      if (blockIndex >= 0 && blockIndex < supportedDiagrams.length) {
-        return supportedDiagrams[blockIndex][1].trim();
-      }
-
-      return null;
+      return findMermaidBlocks(content)[blockIndex]?.code.trim() ?? null;
     } catch (error) {
       console.error('ReactFlow: Error reading file:', error);
       return null;
@@ -447,46 +485,12 @@ export default class MermaidReactFlowPlugin extends Plugin {
 
     try {
       const content = await this.app.vault.read(activeFile);
-      const mermaidRegex = /```mermaid\n([\s\S]*?)```/g;
-      const matches = [...content.matchAll(mermaidRegex)];
-
-      // Filter to only supported diagrams
-      const supportedDiagrams = matches.filter(match => {
-        const code = match[1].trim();
-
-        // Check if it's a supported diagram type
-        // Need to skip metadata comments and find the actual diagram declaration
-        const lines = code.split('\n');
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-
-          // Skip comment lines
-          if (trimmedLine.startsWith('%%')) {
-            continue;
-          }
-
-          // Check for diagram type in first non-comment line
-          if (trimmedLine.startsWith('graph ') ||
-              trimmedLine.startsWith('flowchart ') ||
-              trimmedLine.startsWith('sequenceDiagram') ||
-              /^graph\s+(TD|TB|BT|RL|LR)/i.test(trimmedLine) ||
-              /^flowchart\s+(TD|TB|BT|RL|LR)/i.test(trimmedLine)) {
-            return true;
-          }
-
-          // If we hit a non-comment, non-empty line that's not a diagram type, stop
-          if (trimmedLine.length > 0) {
-            break;
-          }
-        }
-
-        return false;
-      });
+      const supportedDiagrams = findMermaidBlocks(content);
 
       // Find the index by matching the content
       const normalizedInput = this.normalizeMermaidCode(mermaidCode);
       for (let i = 0; i < supportedDiagrams.length; i++) {
-        const blockCode = supportedDiagrams[i][1].trim();
+        const blockCode = supportedDiagrams[i].code.trim();
         const normalizedBlock = this.normalizeMermaidCode(blockCode);
 
         if (normalizedInput === normalizedBlock) {
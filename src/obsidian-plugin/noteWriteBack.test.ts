@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { findMermaidBlocks, replaceMermaidBlock, WriteBackConflictError } from './noteWriteBack';
+
+const NOTE = `# Plans
+
+\`\`\`mermaid
+journey
+  title Commute
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+Done.
+`;
+
+describe('findMermaidBlocks', () => {
+  it('finds supported blocks in ``` and ~~~ fences, skipping the rest', () => {
+    const blocks = findMermaidBlocks(NOTE + '\n~~~~ mermaid\npie\n  "a" : 1\n~~~\n~~~~\n');
+    expect(blocks.map(block => block.code)).toEqual(['flowchart LR\n  A --> B\n', 'pie\n  "a" : 1\n~~~\n']);
+  });
+
+  it('reads CRLF notes and remembers their line ending', () => {
+    const blocks = findMermaidBlocks(NOTE.replace(/\n/g, '\r\n'));
+    expect(blocks.map(({ code, lineEnding }) => ({ code, lineEnding }))).toEqual([
+      { code: 'flowchart LR\n  A --> B\n', lineEnding: '\r\n' },
+    ]);
+  });
+});
+
+describe('replaceMermaidBlock', () => {
+  it('replaces the body of the n-th supported block and leaves the rest of the note alone', () => {
+    const updated = replaceMermaidBlock(NOTE, 0, 'flowchart LR\n  A --> B', 'flowchart LR\n  A --> C\n');
+    expect(updated).toBe(NOTE.replace('A --> B', 'A --> C'));
+  });
+
+  it('writes with the note\'s own line endings', () => {
+    const note = NOTE.replace(/\n/g, '\r\n');
+    const updated = replaceMermaidBlock(note, 0, 'flowchart LR\n  A --> B', 'flowchart LR\n  A --> C');
+    expect(updated).toBe(note.replace('A --> B', 'A --> C'));
+  });
+
+  it('keeps an indented block\'s indentation the same across repeated writes', () => {
+    const note = '- Flow:\n  ```mermaid\n  flowchart LR\n    A --> B\n  ```\n';
+    const [block] = findMermaidBlocks(note);
+    expect(block.code).toBe('flowchart LR\n  A --> B\n');
+
+    const once = replaceMermaidBlock(note, 0, block.code, block.code);
+    expect(once).toBe(note);
+    const edited = replaceMermaidBlock(once, 0, block.code, 'flowchart LR\n  A --> C');
+    expect(edited).toBe('- Flow:\n  ```mermaid\n  flowchart LR\n    A --> C\n  ```\n');
+    expect(findMermaidBlocks(edited)[0].code).toBe('flowchart LR\n  A --> C\n');
+  });
+
+  it('refuses to write when the block changed or is gone', () => {
+    expect(() => replaceMermaidBlock(NOTE, 0, 'flowchart LR\n  A --> X', 'flowchart LR')).toThrow(WriteBackConflictError);
+    expect(() => replaceMermaidBlock(NOTE, 1, 'flowchart LR\n  A --> B', 'flowchart LR')).toThrow(WriteBackConflictError);
+  });
+});
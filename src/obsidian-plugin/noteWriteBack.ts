@@ -0,0 +1,30 @@
+import { isSupportedDiagram, scanMermaidBlocks, MermaidBlock } from '../core/mermaidParser';
+
+// The note no longer holds the diagram the canvas was built from
+export class WriteBackConflictError extends Error {}
+
+// Every supported mermaid block in the note, in order; a view's block index counts these
+export function findMermaidBlocks(content: string): MermaidBlock[] {
+  return scanMermaidBlocks(content).filter(block => isSupportedDiagram(block.code));
+}
+
+// Replaces the body of the blockIndex-th supported mermaid block, counted the same way the view finds it.
+// loadedCode is the block as the canvas loaded it; if the note now says something else, nothing is written.
+export function replaceMermaidBlock(content: string, blockIndex: number, loadedCode: string, newCode: string): string {
+  const block = findMermaidBlocks(content)[blockIndex];
+
+  if (!block) {
+    throw new WriteBackConflictError('The diagram is no longer in the note. Reload it before writing back.');
+  }
+  if (block.code.trim() !== loadedCode.trim()) {
+    throw new WriteBackConflictError('The diagram was changed in the note since it was loaded. Reload it before writing back.');
+  }
+
+  // The note keeps its own indentation and line endings
+  const body = newCode
+    .trim()
+    .split('\n')
+    .map(line => (line ? block.indent + line : line))
+    .join(block.lineEnding) + block.lineEnding;
+  return content.slice(0, block.start) + body + content.slice(block.end);
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { Edge, Node } from 'reactflow';
+import {
+  applySavedPositions,
+  arrangeAroundPinned,
+  extractPositions,
+  getSidecarPath,
+  parseLayoutLines,
+  placedPositions,
+  stripLayoutLines,
+  withAutoLayout,
+  withLayoutLines,
+} from './positionStorage';
+
+const DIAGRAM = `flowchart LR
+  A --> B`;
+
+const node = (id: string, label: string, x: number, y: number): Node => ({ id, position: { x, y }, data: { label } });
+const edge = (source: string, target: string): Edge => ({ id: `${source}-${target}`, source, target });
+
+describe('applySavedPositions', () => {
+  it('moves nodes to their saved position by id', () => {
+    const nodes = [node('A', 'Start', 0, 0), node('B', 'End', 0, 100)];
+    const placed = applySavedPositions(nodes, [edge('A', 'B')], { A: { x: 50, y: 20 }, B: { x: 50, y: 200 } });
+    expect(placed.map(({ position }) => position)).toEqual([{ x: 50, y: 20 }, { x: 50, y: 200 }]);
+  });
+
+  it('gives a renamed node the position saved for a node with a similar label', () => {
+    const nodes = [node('A', 'Start', 0, 0), node('check', 'Check order', 0, 100)];
+    const saved = extractPositions([node('A', 'Start', 10, 10), node('B', 'Check the order', 300, 300)]);
+    const placed = applySavedPositions(nodes, [edge('A', 'check')], saved);
+    expect(placed[1].position).toEqual({ x: 300, y: 300 });
+  });
+
+  it('places new nodes at their auto-layout offset from placed neighbours', () => {
+    const nodes = [node('A', 'Start', 0, 0), node('B', 'Next', 0, 100), node('C', 'Last', 0, 200), node('D', 'Alone', 500, 0)];
+    const placed = applySavedPositions(nodes, [edge('A', 'B'), edge('B', 'C')], { A: { x: 40, y: 10 } });
+    expect(placed.map(({ position }) => position)).toEqual([
+      { x: 40, y: 10 },
+      { x: 40, y: 110 },
+      { x: 40, y: 210 },
+      // Unconnected, so it follows the shift of the nodes that kept their place
+      { x: 540, y: 10 },
+    ]);
+  });
+
+  it('rearranges a changed diagram around its pinned nodes only', () => {
+    const nodes = [node('A', 'Start', 0, 0), node('B', 'Next', 0, 100), node('C', 'New', 0, 200)];
+    const saved = { A: { x: 300, y: 0, pinned: true }, B: { x: 900, y: 900 } };
+    const placed = applySavedPositions(nodes, [edge('A', 'B'), edge('B', 'C')], saved);
+    expect(placed.map(({ position }) => position)).toEqual([{ x: 300, y: 0 }, { x: 300, y: 100 }, { x: 300, y: 200 }]);
+    expect(placed.map(({ data }) => data.pinned)).toEqual([true, undefined, undefined]);
+
+    // With no new nodes, unpinned nodes stay where they were saved too
+    const unchanged = applySavedPositions(nodes.slice(0, 2), [edge('A', 'B')], saved);
+    expect(unchanged[1].position).toEqual({ x: 900, y: 900 });
+  });
+
+  it('keeps the auto-layout when nothing saved matches', () => {
+    const nodes = [node('A', 'Start', 0, 0)];
+    expect(applySavedPositions(nodes, [], { Z: { x: 5, y: 5, label: 'Unrelated' } })).toBe(nodes);
+  });
+});
+
+describe('arrangeAroundPinned', () => {
+  it('keeps pinned nodes and moves the rest off them along the flow', () => {
+    const autoLayout = [node('A', 'Start', 0, 0), node('B', 'Next', 0, 100), node('C', 'Other', 300, 0)];
+    const canvas = [
+      { ...node('A', 'Start', 0, 0), data: { label: 'Start', pinned: true } },
+      node('B', 'Next', 500, 500),
+      { ...node('C', 'Other', 0, 100), data: { label: 'Other', pinned: true } },
+    ];
+    const arranged = arrangeAroundPinned(autoLayout, canvas, [edge('A', 'B')]);
+    expect(arranged.map(({ position }) => position)).toEqual([
+      { x: 0, y: 0 },
+      // B's place below A is taken by C, so it goes below C
+      { x: 0, y: 170 },
+      { x: 0, y: 100 },
+    ]);
+  });
+});
+
+describe('layout lines', () => {
+  it('writes one %% @layout line per node after the diagram and reads them back', () => {
+    const code = withLayoutLines(DIAGRAM, { A: { x: 10.4, y: -20 }, 'node with space': { x: 0, y: 5.6 } });
+    expect(code).toBe(`flowchart LR
+  A --> B
+%% @layout: A 10,-20
+%% @layout: node with space 0,6`);
+    expect(parseLayoutLines(code)).toEqual({ A: { x: 10, y: -20 }, 'node with space': { x: 0, y: 6 } });
+    expect(stripLayoutLines(code)).toBe(DIAGRAM);
+  });
+
+  it('replaces the lines already there rather than adding more', () => {
+    const once = withLayoutLines(DIAGRAM, { A: { x: 1, y: 1 } });
+    expect(withLayoutLines(once, { A: { x: 2, y: 2 } })).toBe(`${DIAGRAM}\n%% @layout: A 2,2`);
+  });
+
+  it('marks pinned nodes', () => {
+    const code = withLayoutLines(DIAGRAM, { A: { x: 1, y: 2, pinned: true }, B: { x: 3, y: 4 } });
+    expect(code).toBe(`${DIAGRAM}\n%% @layout: A 1,2 pinned\n%% @layout: B 3,4`);
+    expect(parseLayoutLines(code)).toEqual({ A: { x: 1, y: 2, pinned: true }, B: { x: 3, y: 4 } });
+  });
+
+  it('has no layout for a diagram without layout lines', () => {
+    expect(parseLayoutLines(`${DIAGRAM}\n%% a comment`)).toBeUndefined();
+  });
+});
+
+describe('placedPositions', () => {
+  it('keeps only nodes that were moved or pinned, never frames or lifeline points', () => {
+    const autoLayout = [
+      node('A', 'Start', 0, 0),
+      node('B', 'Next', 0, 100),
+      node('C', 'Last', 0, 200),
+      { ...node('fragment_0', 'loop', 0, 0), draggable: false },
+      node('lifeline_A_1', '', 0, 60),
+    ];
+    const positions = {
+      A: { x: 0.4, y: 0 },
+      B: { x: 80, y: 100 },
+      C: { x: 0, y: 200, pinned: true },
+      fragment_0: { x: 30, y: 30 },
+      lifeline_A_1: { x: 30, y: 60 },
+    };
+    expect(placedPositions(positions, autoLayout)).toEqual({ B: { x: 80, y: 100 }, C: { x: 0, y: 200, pinned: true } });
+  });
+
+  it('fills in the automatic places of the nodes the lines leave out', () => {
+    const autoLayout = [node('A', 'Start', 0, 0), node('B', 'Next', 0, 100)];
+    expect(withAutoLayout({ B: { x: 80, y: 100 } }, autoLayout)).toEqual({
+      A: { x: 0, y: 0, label: 'Start' },
+      B: { x: 80, y: 100 },
+    });
+    expect(withAutoLayout(undefined, autoLayout)).toBeUndefined();
+  });
+});
+
+describe('getSidecarPath', () => {
+  it('puts the layout file beside the note', () => {
+    expect(getSidecarPath('Notes/Design.md')).toBe('Notes/Design.layout.json');
+  });
+});
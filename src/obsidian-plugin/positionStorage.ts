@@ -1,8 +1,10 @@
-import { Node } from 'reactflow';
+import { Node, Edge, Position } from 'reactflow';
 
 export interface NodePosition {
   x: number;
   y: number;
+  label?: string; // Lets a renamed node find its old position
+  pinned?: boolean; // Placed by the user; relayouts arrange everything else around it
 }
 
 export interface SavedPositions {
@@ -11,6 +13,17 @@ export interface SavedPositions {
   };
 }
 
+// Where arranged layouts are kept: plugin data (keyed by diagram hash), %% @layout lines
+// in the diagram itself, or a <note>.layout.json file beside the note (keyed by block index)
+export type LayoutStorage = 'plugin' | 'note' | 'sidecar';
+
+// %% @layout: nodeId x,y, optionally followed by "pinned"
+const LAYOUT_LINE_REGEX = /^\s*%%\s*@layout:\s*(.+?)\s+(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)(\s+pinned)?\s*$/;
+
+// Size assumed for nodes React Flow hasn't measured yet, and the space kept between nodes
+const DEFAULT_NODE_SIZE = { width: 150, height: 50 };
+const NODE_GAP = 20;
+
 // Simple hash function for mermaid code
 export function hashMermaidCode(code: string): string {
   let hash = 0;
@@ -25,25 +38,215 @@ export function hashMermaidCode(code: string): string {
   return Math.abs(hash).toString(36);
 }
 
-// Apply saved positions to nodes
+// Saved positions whose node id is gone are offered to new nodes with a similar label
+const LABEL_SIMILARITY_THRESHOLD = 0.6;
+
+function getLabel(node: Node): string | undefined {
+  return typeof node.data?.label === 'string' ? node.data.label : undefined;
+}
+
+// Dice coefficient over character bigrams of the normalised labels: 1 for equal, 0 for nothing shared
+function labelSimilarity(a: string, b: string): number {
+  const normalize = (label: string) => label.toLowerCase().replace(/\s+/g, ' ').trim();
+  const first = normalize(a);
+  const second = normalize(b);
+  if (first === second) return 1;
+  if (first.length < 2 || second.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < first.length - 1; i++) {
+    const bigram = first.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < second.length - 1; i++) {
+    const bigram = second.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (first.length + second.length - 2);
+}
+
+// Apply saved positions to nodes. Nodes keep their saved position by id, or by label if their id was
+// renamed; nodes that are new to the diagram are placed relative to their neighbours.
 export function applySavedPositions(
   nodes: Node[],
+  edges: Edge[],
   savedPositions: { [nodeId: string]: NodePosition } | undefined
 ): Node[] {
-  if (!savedPositions) {
+  if (!savedPositions || Object.keys(savedPositions).length === 0) {
     return nodes;
   }
 
-  return nodes.map(node => {
+  const matched = new Map<string, NodePosition>();
+  nodes.forEach(node => {
     const savedPos = savedPositions[node.id];
-    if (savedPos) {
+    if (savedPos) matched.set(node.id, savedPos);
+  });
+
+  // Best label matches first, each saved position going to one node at most
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const orphans = Object.entries(savedPositions).filter(([nodeId, saved]) => !nodeIds.has(nodeId) && saved.label);
+  const candidates = nodes
+    .filter(node => !matched.has(node.id) && getLabel(node))
+    .flatMap(node => orphans.map(([nodeId, saved]) => ({
+      node: node.id,
+      orphan: nodeId,
+      score: labelSimilarity(getLabel(node)!, saved.label!),
+    })))
+    .filter(candidate => candidate.score >= LABEL_SIMILARITY_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+  const claimed = new Set<string>();
+  candidates.forEach(candidate => {
+    if (matched.has(candidate.node) || claimed.has(candidate.orphan)) return;
+    matched.set(candidate.node, savedPositions[candidate.orphan]);
+    claimed.add(candidate.orphan);
+  });
+
+  if (matched.size === 0) {
+    return nodes;
+  }
+
+  // Once the user has pinned nodes, a changed diagram is rearranged around the pins alone;
+  // otherwise every node that was saved stays where it was
+  const hasNewNodes = nodes.some(node => !matched.has(node.id));
+  const pinned = [...matched].filter(([, saved]) => saved.pinned);
+  const anchors = new Map(
+    (hasNewNodes && pinned.length > 0 ? pinned : [...matched]).map(([nodeId, saved]) => [nodeId, { x: saved.x, y: saved.y }])
+  );
+
+  return placeAroundAnchors(nodes, edges, anchors).map(node =>
+    matched.get(node.id)?.pinned ? { ...node, data: { ...node.data, pinned: true } } : node
+  );
+}
+
+// Relayout: pinned nodes stay where the user put them and the rest take their auto-layout places around them
+export function arrangeAroundPinned(autoLayoutNodes: Node[], nodes: Node[], edges: Edge[]): Node[] {
+  const current = new Map(nodes.map(node => [node.id, node]));
+  const anchors = new Map(nodes.filter(node => node.data?.pinned).map(node => [node.id, node.position]));
+
+  // Sizes come from the canvas, where React Flow has measured the nodes
+  const arranged = placeAroundAnchors(
+    autoLayoutNodes.map(node => ({ ...node, width: current.get(node.id)?.width, height: current.get(node.id)?.height })),
+    edges,
+    anchors
+  );
+  const positions = new Map(arranged.map(node => [node.id, node.position]));
+  return nodes.map(node => ({ ...node, position: positions.get(node.id) ?? node.position }));
+}
+
+// Places every node that isn't anchored. A node keeps its auto-layout offset from already placed
+// neighbours in the same container, so chains of new nodes grow out from the part of the diagram
+// they attach to; then anything still overlapping a placed node is pushed along the flow.
+function placeAroundAnchors(nodes: Node[], edges: Edge[], anchors: Map<string, { x: number; y: number }>): Node[] {
+  if (anchors.size === 0) {
+    return nodes;
+  }
+
+  const autoLayout = new Map(nodes.map(node => [node.id, node]));
+  const placed = new Map(anchors);
+
+  const neighbours = new Map<string, string[]>();
+  edges.forEach(edge => {
+    neighbours.set(edge.source, [...(neighbours.get(edge.source) ?? []), edge.target]);
+    neighbours.set(edge.target, [...(neighbours.get(edge.target) ?? []), edge.source]);
+  });
+
+  const offsetFrom = (node: Node, anchorIds: string[]) => {
+    const placedAnchors = anchorIds.filter(id => placed.has(id) && autoLayout.get(id)?.parentNode === node.parentNode);
+    if (placedAnchors.length === 0) return undefined;
+    const sum = placedAnchors.reduce((total, id) => {
+      const anchor = autoLayout.get(id)!;
+      const position = placed.get(id)!;
       return {
-        ...node,
-        position: savedPos,
+        x: total.x + position.x + node.position.x - anchor.position.x,
+        y: total.y + position.y + node.position.y - anchor.position.y,
       };
+    }, { x: 0, y: 0 });
+    return { x: sum.x / placedAnchors.length, y: sum.y / placedAnchors.length };
+  };
+
+  let pending = nodes.filter(node => !placed.has(node.id));
+  let progress = true;
+  while (pending.length > 0 && progress) {
+    progress = false;
+    pending = pending.filter(node => {
+      const position = offsetFrom(node, neighbours.get(node.id) ?? []);
+      if (!position) return true;
+      placed.set(node.id, position);
+      progress = true;
+      return false;
+    });
+  }
+
+  // Unconnected nodes follow the average shift of the anchors beside them
+  pending.forEach(node => {
+    const position = offsetFrom(node, [...anchors.keys()]);
+    if (position) placed.set(node.id, position);
+  });
+
+  const positioned = nodes.map(node => {
+    const position = placed.get(node.id);
+    return position ? { ...node, position } : node;
+  });
+  return resolveOverlaps(positioned, new Set(anchors.keys()));
+}
+
+function getNodeSize(node: Node): { width: number; height: number } {
+  const styleSize = (value: unknown) => (typeof value === 'number' ? value : undefined);
+  return {
+    width: node.width ?? styleSize(node.style?.width) ?? DEFAULT_NODE_SIZE.width,
+    height: node.height ?? styleSize(node.style?.height) ?? DEFAULT_NODE_SIZE.height,
+  };
+}
+
+// Nodes that aren't fixed are settled one at a time, each moved along its flow direction
+// (the side its edges leave from) until it clears everything settled before it
+function resolveOverlaps(nodes: Node[], fixedIds: Set<string>): Node[] {
+  const settled = nodes.filter(node => fixedIds.has(node.id));
+  const result = new Map(nodes.map(node => [node.id, node]));
+
+  const overlaps = (a: Node, b: Node) => {
+    const sizeA = getNodeSize(a);
+    const sizeB = getNodeSize(b);
+    return a.position.x < b.position.x + sizeB.width && b.position.x < a.position.x + sizeA.width
+      && a.position.y < b.position.y + sizeB.height && b.position.y < a.position.y + sizeA.height;
+  };
+
+  nodes.filter(node => !fixedIds.has(node.id)).forEach(node => {
+    const size = getNodeSize(node);
+    let moved = node;
+
+    // Bounded, in case nodes laid out against the flow keep getting in the way
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const blocker = settled.find(other => other.parentNode === node.parentNode && overlaps(moved, other));
+      if (!blocker) break;
+
+      const blockerSize = getNodeSize(blocker);
+      const { x, y } = moved.position;
+      switch (node.sourcePosition) {
+        case Position.Right:
+          moved = { ...moved, position: { x: blocker.position.x + blockerSize.width + NODE_GAP, y } };
+          break;
+        case Position.Left:
+          moved = { ...moved, position: { x: blocker.position.x - size.width - NODE_GAP, y } };
+          break;
+        case Position.Top:
+          moved = { ...moved, position: { x, y: blocker.position.y - size.height - NODE_GAP } };
+          break;
+        default:
+          moved = { ...moved, position: { x, y: blocker.position.y + blockerSize.height + NODE_GAP } };
+      }
     }
-    return node;
+
+    settled.push(moved);
+    result.set(node.id, moved);
   });
+
+  return nodes.map(node => result.get(node.id)!);
 }
 
 // Extract positions from nodes
@@ -54,8 +257,84 @@ export function extractPositions(nodes: Node[]): { [nodeId: string]: NodePositio
     positions[node.id] = {
       x: node.position.x,
       y: node.position.y,
+      label: getLabel(node),
+      pinned: node.data?.pinned || undefined,
     };
   });
 
   return positions;
 }
+
+// Positions from the diagram's %% @layout lines, or undefined if it has none
+export function parseLayoutLines(code: string): { [nodeId: string]: NodePosition } | undefined {
+  const positions: { [nodeId: string]: NodePosition } = {};
+  let found = false;
+
+  code.split('\n').forEach(line => {
+    const match = line.match(LAYOUT_LINE_REGEX);
+    if (match) {
+      positions[match[1]] = { x: Number(match[2]), y: Number(match[3]), pinned: Boolean(match[4]) || undefined };
+      found = true;
+    }
+  });
+
+  return found ? positions : undefined;
+}
+
+export function stripLayoutLines(code: string): string {
+  return code
+    .split('\n')
+    .filter(line => !LAYOUT_LINE_REGEX.test(line))
+    .join('\n')
+    .trim();
+}
+
+// Sequence lifelines are chains of unlabelled point nodes (or a cross where the participant is destroyed)
+function isLifelinePoint(node: Node): boolean {
+  return /^lifeline_.+_\d+$/.test(node.id) && (node.data?.label === '' || node.data?.shape === 'destroy');
+}
+
+// %% @layout lines only record the nodes the user moved or pinned; everything else keeps its
+// automatic place. Frames, activation bars and lifeline points are drawn from the diagram and never written.
+export function placedPositions(
+  positions: { [nodeId: string]: NodePosition },
+  autoLayoutNodes: Node[]
+): { [nodeId: string]: NodePosition } {
+  const placed: { [nodeId: string]: NodePosition } = {};
+
+  autoLayoutNodes.forEach(node => {
+    const position = positions[node.id];
+    if (!position || node.draggable === false || isLifelinePoint(node)) return;
+
+    const moved = Math.round(position.x) !== Math.round(node.position.x)
+      || Math.round(position.y) !== Math.round(node.position.y);
+    if (moved || position.pinned) {
+      placed[node.id] = position;
+    }
+  });
+
+  return placed;
+}
+
+// The full layout described by a block's %% @layout lines: the listed nodes where they were put,
+// the rest at their automatic places
+export function withAutoLayout(
+  positions: { [nodeId: string]: NodePosition } | undefined,
+  autoLayoutNodes: Node[]
+): { [nodeId: string]: NodePosition } | undefined {
+  if (!positions) return undefined;
+  return { ...extractPositions(autoLayoutNodes), ...positions };
+}
+
+// Replaces the diagram's %% @layout lines with one line per given node, appended after the diagram
+export function withLayoutLines(code: string, positions: { [nodeId: string]: NodePosition }): string {
+  const layoutLines = Object.entries(positions).map(
+    ([nodeId, position]) => `%% @layout: ${nodeId} ${Math.round(position.x)},${Math.round(position.y)}${position.pinned ? ' pinned' : ''}`
+  );
+  return [stripLayoutLines(code), ...layoutLines].join('\n');
+}
+
+// Beside Notes/Design.md: Notes/Design.layout.json
+export function getSidecarPath(notePath: string): string {
+  return notePath.replace(/\.md$/i, '') + '.layout.json';
+}
@@ -1,5 +1,6 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import MermaidReactFlowPlugin from './main';
+import { LayoutStorage } from './positionStorage';
 
 export class MermaidReactFlowSettingTab extends PluginSettingTab {
   plugin: MermaidReactFlowPlugin;
@@ -45,6 +46,24 @@ export class MermaidReactFlowSettingTab extends PluginSettingTab {
         })
       );
 
+    // Layout storage
+    containerEl.createEl('h3', { text: 'Layout' });
+
+    new Setting(containerEl)
+      .setName('Store arranged layouts')
+      .setDesc('Plugin data is private to this vault and is lost when the diagram text changes. '
+        + 'In the note, positions are written as %% @layout lines inside the diagram; '
+        + 'a layout file is saved as <note>.layout.json beside the note. Both travel with the note and survive edits.')
+      .addDropdown(dropdown => dropdown
+        .addOption('plugin', 'Plugin data')
+        .addOption('note', 'In the note')
+        .addOption('sidecar', 'Layout file beside the note')
+        .setValue(this.plugin.data.layoutStorage)
+        .onChange(async (value) => {
+          await this.plugin.setLayoutStorage(value as LayoutStorage);
+        })
+      );
+
     // Usage info
     containerEl.createEl('h3', { text: 'How to Use' });
 
@@ -55,6 +74,14 @@ export class MermaidReactFlowSettingTab extends PluginSettingTab {
     const list = usageDiv.createEl('ul');
     list.createEl('li', { text: 'Flowcharts (graph/flowchart)' });
     list.createEl('li', { text: 'Sequence diagrams' });
+    list.createEl('li', { text: 'Class diagrams' });
+    list.createEl('li', { text: 'State diagrams' });
+    list.createEl('li', { text: 'Entity-relationship diagrams' });
+    list.createEl('li', { text: 'Gantt charts' });
+    list.createEl('li', { text: 'Mindmaps' });
+    list.createEl('li', { text: 'Pie charts' });
+    list.createEl('li', { text: 'Quadrant charts' });
+    list.createEl('li', { text: 'Git graphs' });
 
     usageDiv.createEl('p', { text: 'Click the button to open an interactive version in the sidebar where you can pan, zoom, and rearrange nodes.' });
 
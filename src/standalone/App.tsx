@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { FlowDiagram } from './components/FlowDiagram';
-import { extractMermaidDiagrams, MermaidDiagram } from '../core/mermaidParser';
+import { ProblemsList } from './components/ProblemsList';
+import { extractMermaidDiagrams, detectDiagramType, MermaidDiagram } from '../core/mermaidParser';
+import { serializeFlowchart } from '../core/flowchartSerializer';
 import { convertMermaidToReactFlow, ReactFlowData } from '../core/mermaidToReactFlow';
+import { ConversionDiagnostic } from '../core/diagnostics';
 import { saveDiagram, getAllDiagrams, deleteDiagram, exportToFile, SavedDiagram, getDiagram, updateDiagram } from '../core/diagramStorage';
 import { Node, Edge } from 'reactflow';
 import './App.css';
@@ -11,6 +14,7 @@ function App() {
   const [diagrams, setDiagrams] = useState<MermaidDiagram[]>([]);
   const [selectedDiagram, setSelectedDiagram] = useState<number>(0);
   const [flowData, setFlowData] = useState<ReactFlowData>({ nodes: [], edges: [] });
+  const [diagnostics, setDiagnostics] = useState<ConversionDiagnostic[]>([]);
   const [loading, setLoading] = useState(false);
   const [savedDiagrams, setSavedDiagrams] = useState<SavedDiagram[]>([]);
   const [currentDiagramId, setCurrentDiagramId] = useState<string | null>(null);
@@ -51,8 +55,9 @@ function App() {
     if (diagrams.length > 0 && selectedDiagram < diagrams.length) {
       setLoading(true);
       convertMermaidToReactFlow(diagrams[selectedDiagram].code)
-        .then(data => {
+        .then(({ diagnostics, ...data }) => {
           setFlowData(data);
+          setDiagnostics(diagnostics);
           setLoading(false);
         })
         .catch(error => {
@@ -86,6 +91,12 @@ function App() {
     setFlowData(prev => ({ ...prev, edges }));
   };
 
+  // The edited diagram as Mermaid text, for the diagram types that can be written back
+  const serializeEdits = (originalCode: string | undefined) => {
+    if (!originalCode || detectDiagramType(originalCode) !== 'flowchart') return undefined;
+    return serializeFlowchart(flowData.nodes, flowData.edges, originalCode);
+  };
+
   const handleSaveDiagram = () => {
     if (diagrams.length > 0 && selectedDiagram < diagrams.length) {
       const currentMermaidDiagram = diagrams[selectedDiagram];
@@ -94,6 +105,7 @@ function App() {
         nodes: flowData.nodes,
         edges: flowData.edges,
         originalMermaidCode: currentMermaidDiagram.code,
+        mermaidCode: serializeEdits(currentMermaidDiagram.code),
         metadata: {
           description: `Converted from Mermaid ${currentMermaidDiagram.type} diagram`,
         }
@@ -108,6 +120,7 @@ function App() {
         updateDiagram(currentDiagramId, {
           nodes: flowData.nodes,
           edges: flowData.edges,
+          mermaidCode: serializeEdits(diagram.originalMermaidCode),
         });
         setSavedDiagrams(getAllDiagrams());
         alert('Diagram updated successfully!');
@@ -117,6 +130,7 @@ function App() {
 
   const handleLoadDiagram = (diagram: SavedDiagram) => {
     setFlowData({ nodes: diagram.nodes, edges: diagram.edges });
+    setDiagnostics([]);
     setCurrentDiagramId(diagram.id);
     setShowSavedDiagrams(false);
     // Clear markdown content when loading saved diagram
@@ -143,6 +157,7 @@ function App() {
         nodes: flowData.nodes,
         edges: flowData.edges,
         originalMermaidCode: currentMermaidDiagram.code,
+        mermaidCode: serializeEdits(currentMermaidDiagram.code),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -150,6 +165,25 @@ function App() {
     }
   };
 
+  // The diagram the canvas shows: the selected one from the markdown, or the saved one that was loaded
+  const currentSourceCode = diagrams[selectedDiagram]?.code
+    ?? (currentDiagramId ? getDiagram(currentDiagramId)?.originalMermaidCode : undefined);
+  const canCopyMermaid = flowData.nodes.length > 0
+    && currentSourceCode !== undefined
+    && detectDiagramType(currentSourceCode) === 'flowchart';
+
+  const handleCopyMermaid = async () => {
+    const code = serializeEdits(currentSourceCode);
+    if (!code) return;
+    try {
+      await navigator.clipboard.writeText(code);
+      alert('Mermaid copied to clipboard!');
+    } catch (error) {
+      console.error('Error copying Mermaid:', error);
+      alert('Could not copy to the clipboard');
+    }
+  };
+
   const handleStartRename = (diagram: SavedDiagram) => {
     setEditingDiagramId(diagram.id);
     setEditingName(diagram.name);
@@ -240,6 +274,9 @@ function App() {
           <button onClick={handleExportDiagram} disabled={flowData.nodes.length === 0}>
             Export to File
           </button>
+          <button onClick={handleCopyMermaid} disabled={!canCopyMermaid}>
+            Copy as Mermaid
+          </button>
           <button onClick={() => setShowSavedDiagrams(!showSavedDiagrams)}>
             {showSavedDiagrams ? 'Hide' : 'Show'} Saved Diagrams ({savedDiagrams.length})
           </button>
@@ -313,6 +350,9 @@ function App() {
             onEdgesChange={handleEdgesChange}
           />
         )}
+        {!loading && (
+          <ProblemsList diagnostics={diagnostics} docked={flowData.nodes.length > 0} />
+        )}
         {!loading && flowData.nodes.length === 0 && diagrams.length === 0 && (
           <div className="placeholder">
             Upload a markdown file or paste content with Mermaid diagrams to visualize them
@@ -0,0 +1,37 @@
+import { Handle, Position, NodeProps } from 'reactflow';
+import { ClassMember } from '../../core/classDiagram';
+
+function MemberList({ members }: { members: ClassMember[] }) {
+  return (
+    <div className="uml-class-compartment">
+      {members.map((member, index) => (
+        <div key={index} className={`uml-class-member ${member.classifier ?? ''}`}>
+          {member.visibility && <span className="uml-class-visibility">{member.visibility}</span>}
+          {member.text}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ClassNode({
+  data,
+  isConnectable,
+  sourcePosition = Position.Bottom,
+  targetPosition = Position.Top
+}: NodeProps) {
+  return (
+    <div className="uml-class-node">
+      <Handle type="target" position={targetPosition} isConnectable={isConnectable} />
+
+      <div className="uml-class-header">
+        {data.annotation && <div className="uml-class-annotation">«{data.annotation}»</div>}
+        <div className="uml-class-name">{data.label}</div>
+      </div>
+      <MemberList members={data.attributes ?? []} />
+      <MemberList members={data.methods ?? []} />
+
+      <Handle type="source" position={sourcePosition} isConnectable={isConnectable} />
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import { Handle, Position, NodeProps } from 'reactflow';
+import { ShapeOutline } from './ShapeOutline';
 
-export function CustomNode({ data, isConnectable }: NodeProps) {
+export function CustomNode({
+  data,
+  isConnectable,
+  sourcePosition = Position.Bottom,
+  targetPosition = Position.Top
+}: NodeProps) {
   const handleClick = () => {
     if (data.githubUrl) {
       window.open(data.githubUrl, '_blank');
@@ -19,7 +25,7 @@ export function CustomNode({ data, isConnectable }: NodeProps) {
   const getNodeClassName = () => {
     let className = `custom-node shape-${data.shape || 'rect'}`;
     if (data.githubUrl) className += ' has-link';
-    if (data.shape === 'diamond') className += ' diamond-node';
+    if (data.outlined) className += ' outlined';
     return className;
   };
   
@@ -28,11 +34,20 @@ export function CustomNode({ data, isConnectable }: NodeProps) {
       className={getNodeClassName()}
       onDoubleClick={data.onEdit}
     >
+      {data.outlined && (
+        <ShapeOutline
+          shape={data.shape}
+          fill={data.colors?.backgroundColor || '#ffffff'}
+          stroke={data.colors?.borderColor || '#222222'}
+          strokeWidth={data.strokeWidth}
+          strokeDasharray={data.strokeDasharray}
+        />
+      )}
+
       <Handle
         type="target"
-        position={Position.Top}
+        position={targetPosition}
         isConnectable={isConnectable}
-        style={{ visibility: data.shape === 'diamond' ? 'hidden' : 'visible' }}
       />
       
       <div className="node-content">
@@ -43,7 +58,10 @@ export function CustomNode({ data, isConnectable }: NodeProps) {
             </svg>
           </div>
         )}
-        <div className="node-label">
+        <div
+          className="node-label"
+          style={data.textColor ? { '--node-text-color': data.textColor } as React.CSSProperties : undefined}
+        >
           {renderLabel(data.label)}
         </div>
         {data.description && (
@@ -55,9 +73,8 @@ export function CustomNode({ data, isConnectable }: NodeProps) {
       
       <Handle
         type="source"
-        position={Position.Bottom}
+        position={sourcePosition}
         isConnectable={isConnectable}
-        style={{ visibility: data.shape === 'diamond' ? 'hidden' : 'visible' }}
       />
     </div>
   );
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { Edge, MarkerType } from 'reactflow';
+import { convertMermaidToReactFlow } from '../../core/mermaidToReactFlow';
+import { withMarkerIdPrefix } from './EdgeMarkers';
+
+describe('withMarkerIdPrefix', () => {
+  it('gives each canvas its own ids for the markers it defines', async () => {
+    const { edges } = await convertMermaidToReactFlow('flowchart LR\n  A o--x B --> C');
+    const first = withMarkerIdPrefix(edges, 'r1-');
+    const second = withMarkerIdPrefix(edges, 'r2-');
+    expect([first[0].markerStart, first[0].markerEnd]).toEqual(['r1-edge-A-B-0-start', 'r1-edge-A-B-0-end']);
+    expect([second[0].markerStart, second[0].markerEnd]).toEqual(['r2-edge-A-B-0-start', 'r2-edge-A-B-0-end']);
+    // Built-in arrowheads aren't defined by the canvas, so they stay as they are
+    expect(first[1]).toBe(edges[1]);
+  });
+
+  it('prefixes class and ER relation markers too', () => {
+    const edges: Edge[] = [
+      { id: 'relation-A-B-0', source: 'A', target: 'B', markerStart: 'relation-A-B-0-start', markerEnd: { type: MarkerType.Arrow } },
+      { id: 'relationship-A-B-0', source: 'A', target: 'B', markerStart: 'relationship-A-B-0-start', markerEnd: 'relationship-A-B-0-end' },
+    ];
+    expect(withMarkerIdPrefix(edges, 'r1-').map(edge => [edge.markerStart, edge.markerEnd])).toEqual([
+      ['r1-relation-A-B-0-start', { type: MarkerType.Arrow }],
+      ['r1-relationship-A-B-0-start', 'r1-relationship-A-B-0-end'],
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { ReactElement } from 'react';
+import { Edge } from 'reactflow';
+
+// Each shape points along +x in its viewBox; refX/refY put its tip on the edge's end point
+const MARKER_SHAPES: Record<string, {
+  viewBox: string;
+  refX: number;
+  refY: number;
+  width: number;
+  height: number;
+  render: (color: string) => ReactElement;
+}> = {
+  circle: {
+    viewBox: '0 0 10 10', refX: 9, refY: 5, width: 12, height: 12,
+    render: color => <circle cx={5} cy={5} r={4} fill={color} />,
+  },
+  cross: {
+    viewBox: '0 0 10 10', refX: 8, refY: 5, width: 12, height: 12,
+    render: color => <path d="M1 1 L9 9 M9 1 L1 9" fill="none" stroke={color} strokeWidth={2} />,
+  },
+  // UML inheritance/realization
+  triangle: {
+    viewBox: '0 0 12 12', refX: 11, refY: 6, width: 16, height: 16,
+    render: color => <path d="M1 1 L11 6 L1 11 Z" fill="#ffffff" stroke={color} strokeWidth={1.2} />,
+  },
+  // UML aggregation
+  diamond: {
+    viewBox: '0 0 20 10', refX: 19.5, refY: 5, width: 24, height: 12,
+    render: color => <path d="M0.5 5 L10 0.5 L19.5 5 L10 9.5 Z" fill="#ffffff" stroke={color} strokeWidth={1} />,
+  },
+  // UML composition
+  'diamond-filled': {
+    viewBox: '0 0 20 10', refX: 19.5, refY: 5, width: 24, height: 12,
+    render: color => <path d="M0.5 5 L10 0.5 L19.5 5 L10 9.5 Z" fill={color} stroke={color} strokeWidth={1} />,
+  },
+  // Provided interface
+  lollipop: {
+    viewBox: '0 0 10 10', refX: 9, refY: 5, width: 12, height: 12,
+    render: color => <circle cx={5} cy={5} r={4} fill="#ffffff" stroke={color} strokeWidth={1.2} />,
+  },
+  // ER crow's-foot cardinalities; the entity sits at x = 24
+  'zero-or-one': {
+    viewBox: '0 0 24 20', refX: 24, refY: 10, width: 24, height: 20,
+    render: color => (
+      <g fill="none" stroke={color} strokeWidth={1.5}>
+        <path d="M18 3 V17" />
+        <circle cx={9} cy={10} r={4} fill="#ffffff" />
+      </g>
+    ),
+  },
+  'exactly-one': {
+    viewBox: '0 0 24 20', refX: 24, refY: 10, width: 24, height: 20,
+    render: color => <path d="M14 3 V17 M19 3 V17" fill="none" stroke={color} strokeWidth={1.5} />,
+  },
+  'zero-or-more': {
+    viewBox: '0 0 24 20', refX: 24, refY: 10, width: 24, height: 20,
+    render: color => (
+      <g fill="none" stroke={color} strokeWidth={1.5}>
+        <path d="M14 10 L24 3 M14 10 L24 17 M14 10 H24" />
+        <circle cx={9} cy={10} r={4} fill="#ffffff" />
+      </g>
+    ),
+  },
+  'one-or-more': {
+    viewBox: '0 0 24 20', refX: 24, refY: 10, width: 24, height: 20,
+    render: color => <path d="M14 10 L24 3 M14 10 L24 17 M14 10 H24 M11 3 V17" fill="none" stroke={color} strokeWidth={1.5} />,
+  },
+};
+
+// Marker ids are global to the page, so canvases showing the same diagram would use each other's
+// markers. Each canvas renders its edges, and the markers they point at, under its own id prefix.
+export function withMarkerIdPrefix(edges: Edge[], prefix: string): Edge[] {
+  const prefixed = (marker: Edge['markerEnd']) => (typeof marker === 'string' ? `${prefix}${marker}` : marker);
+  return edges.map(edge =>
+    typeof edge.markerStart === 'string' || typeof edge.markerEnd === 'string'
+      ? { ...edge, markerStart: prefixed(edge.markerStart), markerEnd: prefixed(edge.markerEnd) }
+      : edge
+  );
+}
+
+// React Flow only has arrow MarkerTypes. Edges reference these SVG markers by id
+// instead, one per edge end so each takes its edge's colour.
+export function EdgeMarkers({ edges }: { edges: Edge[] }) {
+  const markers: Array<{ id: string; kind: string; color: string }> = [];
+
+  edges.forEach(edge => {
+    (['start', 'end'] as const).forEach(position => {
+      const id = position === 'start' ? edge.markerStart : edge.markerEnd;
+      const kind = edge.data?.markers?.[position];
+      if (typeof id === 'string' && MARKER_SHAPES[kind]) {
+        const color = typeof edge.style?.stroke === 'string' ? edge.style.stroke : '#2D3748';
+        markers.push({ id, kind, color });
+      }
+    });
+  });
+
+  if (markers.length === 0) return null;
+
+  return (
+    <svg className="edge-markers" width="0" height="0" style={{ position: 'absolute' }} aria-hidden="true">
+      <defs>
+        {markers.map(({ id, kind, color }) => {
+          const shape = MARKER_SHAPES[kind];
+          return (
+            <marker
+              key={id}
+              id={id}
+              viewBox={shape.viewBox}
+              refX={shape.refX}
+              refY={shape.refY}
+              markerWidth={shape.width}
+              markerHeight={shape.height}
+              markerUnits="userSpaceOnUse"
+              orient="auto-start-reverse"
+            >
+              {shape.render(color)}
+            </marker>
+          );
+        })}
+      </defs>
+    </svg>
+  );
+}
@@ -0,0 +1,34 @@
+import { Handle, Position, NodeProps } from 'reactflow';
+import { EntityAttribute } from '../../core/erDiagram';
+
+export function EntityNode({
+  data,
+  isConnectable,
+  sourcePosition = Position.Bottom,
+  targetPosition = Position.Top
+}: NodeProps) {
+  const attributes: EntityAttribute[] = data.attributes ?? [];
+
+  return (
+    <div className="er-entity-node">
+      <Handle type="target" position={targetPosition} isConnectable={isConnectable} />
+
+      <div className="er-entity-header">{data.label}</div>
+      {attributes.length > 0 && (
+        <table className="er-entity-attributes">
+          <tbody>
+            {attributes.map((attribute, index) => (
+              <tr key={index} title={attribute.comment}>
+                <td className="er-attribute-type">{attribute.type}</td>
+                <td className="er-attribute-name">{attribute.name}</td>
+                <td className="er-attribute-keys">{attribute.keys.join(', ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <Handle type="source" position={sourcePosition} isConnectable={isConnectable} />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useCallback, useState, useEffect, useMemo } from 'react';
+import { useCallback, useState, useEffect, useMemo, useRef, useId } from 'react';
 import ReactFlow, {
   Node,
   Edge,
@@ -17,6 +17,23 @@ import 'reactflow/dist/style.css';
 import { CustomNode } from './CustomNode';
 import { NodeEditor } from './NodeEditor';
 import { SubgraphNode } from './SubgraphNode';
+import { EdgeMarkers, withMarkerIdPrefix } from './EdgeMarkers';
+import { ClassNode } from './ClassNode';
+import { EntityNode } from './EntityNode';
+import { SequenceFrame } from './SequenceFrame';
+import { SequenceActor } from './SequenceActor';
+import { SequenceActivation } from './SequenceActivation';
+import { GanttTask } from './GanttTask';
+import { GanttAxis } from './GanttAxis';
+import { GitCommit } from './GitCommit';
+import { GitBranchLane } from './GitBranchLane';
+import { MindmapNode } from './MindmapNode';
+import { PieChart } from './PieChart';
+import { PieLegend } from './PieLegend';
+import { QuadrantChart } from './QuadrantChart';
+import { QuadrantPoint } from './QuadrantPoint';
+import { RelationEdge } from './RelationEdge';
+import { SelfMessageEdge } from './SelfMessageEdge';
 
 interface FlowDiagramProps {
   nodes: Node[];
@@ -24,6 +41,8 @@ interface FlowDiagramProps {
   onNodesChange?: (nodes: Node[]) => void;
   onEdgesChange?: (edges: Edge[]) => void;
   onNodeClick?: (nodeId: string) => void;
+  onNodeContextMenu?: (event: React.MouseEvent, node: Node) => void;
+  pinOnDrag?: boolean; // Nodes the user drags are marked data.pinned
   selectedNodeId?: string;
   theme?: 'light' | 'dark';
   fitView?: boolean;
@@ -35,6 +54,8 @@ export function FlowDiagram({
   onNodesChange: onNodesChangeCallback,
   onEdgesChange: onEdgesChangeCallback,
   onNodeClick: onNodeClickCallback,
+  onNodeContextMenu,
+  pinOnDrag = false,
   selectedNodeId,
   theme = 'light',
   fitView = true
@@ -45,6 +66,8 @@ export function FlowDiagram({
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [showNodeEditor, setShowNodeEditor] = useState(false);
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  const dragStartPositions = useRef(new Map<string, { x: number; y: number }>());
+  const markerIdPrefix = `${useId().replace(/[^\w-]/g, '')}-`;
 
   useEffect(() => {
     setNodes(initialNodes);
@@ -55,6 +78,28 @@ export function FlowDiagram({
     () => ({
       custom: CustomNode,
       group: SubgraphNode,
+      umlClass: ClassNode,
+      erEntity: EntityNode,
+      sequenceFrame: SequenceFrame,
+      sequenceActor: SequenceActor,
+      sequenceActivation: SequenceActivation,
+      ganttTask: GanttTask,
+      ganttAxis: GanttAxis,
+      gitCommit: GitCommit,
+      gitBranch: GitBranchLane,
+      mindmap: MindmapNode,
+      pieChart: PieChart,
+      pieLegend: PieLegend,
+      quadrantChart: QuadrantChart,
+      quadrantPoint: QuadrantPoint,
+    }),
+    []
+  );
+
+  const edgeTypes = useMemo(
+    () => ({
+      relation: RelationEdge,
+      selfMessage: SelfMessageEdge,
     }),
     []
   );
@@ -68,6 +113,28 @@ export function FlowDiagram({
     [nodes, onNodesChangeCallback]
   );
 
+  const handleDragStart = useCallback((draggedNodes: Node[]) => {
+    dragStartPositions.current = new Map(draggedNodes.map(node => [node.id, { ...node.position }]));
+  }, []);
+
+  // Only nodes that ended somewhere else are pinned; a drag can end where it started
+  const handleDragStop = useCallback((draggedNodes: Node[]) => {
+    const moved = new Set(draggedNodes.flatMap(node => {
+      const start = dragStartPositions.current.get(node.id);
+      return start && (start.x !== node.position.x || start.y !== node.position.y) ? [node.id] : [];
+    }));
+    dragStartPositions.current = new Map();
+    if (!pinOnDrag || moved.size === 0) return;
+
+    setNodes((nds) => {
+      const newNodes = nds.map(node =>
+        moved.has(node.id) && !node.data?.pinned ? { ...node, data: { ...node.data, pinned: true } } : node
+      );
+      onNodesChangeCallback?.(newNodes);
+      return newNodes;
+    });
+  }, [onNodesChangeCallback, pinOnDrag]);
+
   const onEdgesChange = useCallback(
     (changes: EdgeChange[]) => {
       const newEdges = applyEdgeChanges(changes, edges);
@@ -124,6 +191,25 @@ export function FlowDiagram({
     });
   }, [onNodesChangeCallback]);
 
+  // Collapsing a mindmap branch hides every node below it, along with the edges leading to them
+  const handleToggleCollapse = useCallback((nodeId: string) => {
+    const toggled = nodes.map((node) =>
+      node.id === nodeId ? { ...node, data: { ...node.data, collapsed: !node.data?.collapsed } } : node
+    );
+    const byId = new Map(toggled.map((node) => [node.id, node]));
+    const isHidden = (node: Node): boolean => {
+      const parent = node.data?.parentId ? byId.get(node.data.parentId) : undefined;
+      return parent ? Boolean(parent.data?.collapsed) || isHidden(parent) : false;
+    };
+    const newNodes = toggled.map((node) => ({ ...node, hidden: isHidden(node) }));
+    const hiddenIds = new Set(newNodes.filter((node) => node.hidden).map((node) => node.id));
+    const newEdges = edges.map((edge) => ({ ...edge, hidden: hiddenIds.has(edge.target) }));
+    setNodes(newNodes);
+    setEdges(newEdges);
+    onNodesChangeCallback?.(newNodes);
+    onEdgesChangeCallback?.(newEdges);
+  }, [nodes, edges, onNodesChangeCallback, onEdgesChangeCallback]);
+
   // Add onEdit callback and visual state to node data
   const nodesWithEditCallback = useMemo(
     () =>
@@ -135,7 +221,12 @@ export function FlowDiagram({
         // Remove border shorthand to avoid conflicts with individual border properties
         const { border, ...styleWithoutBorder } = node.style || {};
 
-        const nodeStyle = {
+        // Outlined shapes have no CSS border to highlight; glow around the outline instead
+        const nodeStyle = node.data?.outlined ? {
+          ...styleWithoutBorder,
+          ...(isSelected && { filter: 'drop-shadow(0 0 4px var(--interactive-accent))' }),
+          ...(isHovered && !isSelected && { filter: 'drop-shadow(0 2px 6px rgba(0, 0, 0, 0.25))' }),
+        } : {
           ...styleWithoutBorder,
           transition: 'border-color 0.15s ease, border-width 0.15s ease, box-shadow 0.15s ease',
           ...(isSelected && {
@@ -155,35 +246,48 @@ export function FlowDiagram({
         return {
           ...node,
           style: nodeStyle,
+          // Only on the rendered copy, so the diagram's own classes are what gets saved
+          className: node.data?.pinned ? [node.className, 'is-pinned'].filter(Boolean).join(' ') : node.className,
           data: {
             ...node.data,
             onEdit: () => {
               setSelectedNode(node);
               setShowNodeEditor(true);
             },
+            ...(node.type === 'mindmap' && { onToggleCollapse: handleToggleCollapse }),
           },
         };
       }),
-    [nodes, selectedNodeId, hoveredNodeId]
+    [nodes, selectedNodeId, hoveredNodeId, handleToggleCollapse]
   );
 
+  const renderedEdges = useMemo(() => withMarkerIdPrefix(edges, markerIdPrefix), [edges, markerIdPrefix]);
+
   return (
     <>
       <div style={{ width: '100%', height: '100%' }} className={`flow-diagram-container ${isDark ? 'theme-dark' : 'theme-light'}`}>
+        <EdgeMarkers edges={renderedEdges} />
         <ReactFlow
           nodes={nodesWithEditCallback}
-          edges={edges}
+          edges={renderedEdges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onConnect={onConnect}
           onNodeClick={onNodeClick}
           onNodeDoubleClick={onNodeDoubleClick}
+          onNodeContextMenu={onNodeContextMenu}
+          onNodeDragStart={(_event, _node, draggedNodes) => handleDragStart(draggedNodes)}
+          onNodeDragStop={(_event, _node, draggedNodes) => handleDragStop(draggedNodes)}
+          onSelectionDragStart={(_event, draggedNodes) => handleDragStart(draggedNodes)}
+          onSelectionDragStop={(_event, draggedNodes) => handleDragStop(draggedNodes)}
           onNodeMouseEnter={onNodeMouseEnter}
           onNodeMouseLeave={onNodeMouseLeave}
           nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
           fitView={fitView}
           defaultViewport={{ x: 0, y: 0, zoom: 1 }}
           deleteKeyCode={['Delete', 'Backspace']}
+          nodeDragThreshold={4}
         >
           <Controls />
           <MiniMap />
@@ -0,0 +1,17 @@
+import { NodeProps } from 'reactflow';
+
+// The gantt time axis: tick labels along the top with gridlines running down the chart
+export function GanttAxis({ data }: NodeProps) {
+  const ticks: Array<{ offset: number; label: string }> = data.ticks ?? [];
+
+  return (
+    <div className="gantt-axis">
+      {data.title && <div className="gantt-axis-title">{data.title}</div>}
+      {ticks.map((tick, index) => (
+        <div key={index} className="gantt-axis-tick" style={{ left: tick.offset }}>
+          <span className="gantt-axis-label">{tick.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Handle, Position, NodeProps } from 'reactflow';
+import { GanttTag } from '../../core/ganttDiagram';
+
+// A gantt task bar, or a diamond for a milestone; dependencies enter on the left and leave on the right
+export function GanttTask({ data }: NodeProps) {
+  const tags: GanttTag[] = data.tags ?? [];
+  const className = ['gantt-task', ...tags].join(' ');
+  const dates = `${new Date(data.start).toISOString().slice(0, 10)} – ${new Date(data.end).toISOString().slice(0, 10)}`;
+
+  return (
+    <div className={className} title={`${data.label}\n${dates}`}>
+      <Handle type="target" position={Position.Left} isConnectable={false} />
+      {tags.includes('milestone') ? <div className="gantt-milestone-diamond" /> : null}
+      <span className="gantt-task-label">{data.label}</span>
+      <Handle type="source" position={Position.Right} isConnectable={false} />
+    </div>
+  );
+}
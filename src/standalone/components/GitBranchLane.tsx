@@ -0,0 +1,13 @@
+import { NodeProps } from 'reactflow';
+
+// A gitGraph branch lane: the branch name at its start and a faint line in its colour
+export function GitBranchLane({ data }: NodeProps) {
+  const className = ['git-branch-lane', data.direction === 'LR' ? 'git-horizontal' : 'git-vertical',
+    data.direction === 'BT' ? 'git-reversed' : ''].filter(Boolean).join(' ');
+
+  return (
+    <div className={className} style={{ '--git-color': data.color } as React.CSSProperties}>
+      <span className="git-branch-label">{data.label}</span>
+    </div>
+  );
+}
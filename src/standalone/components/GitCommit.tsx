@@ -0,0 +1,30 @@
+import { Handle, Position, NodeProps } from 'reactflow';
+import { GitCommitType } from '../../core/gitGraph';
+
+// A gitGraph commit: a dot in its branch's colour, with its id and tags beside it.
+// Merge commits are drawn as a ring, highlighted commits as a square, reverts crossed out.
+export function GitCommit({ data, sourcePosition, targetPosition }: NodeProps) {
+  const commitType: GitCommitType = data.commitType ?? 'NORMAL';
+  const tags: string[] = data.tags ?? [];
+  const className = [
+    'git-commit',
+    `git-commit-${commitType.toLowerCase()}`,
+    data.merge ? 'git-commit-merge' : '',
+    data.cherryPick ? 'git-commit-cherry-pick' : '',
+    data.direction === 'LR' ? 'git-horizontal' : 'git-vertical',
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div className={className} style={{ '--git-color': data.color } as React.CSSProperties} title={data.commitId}>
+      <Handle type="target" position={targetPosition ?? Position.Left} isConnectable={false} />
+      {commitType === 'REVERSE' && <span className="git-commit-cross">✕</span>}
+      {data.label && <span className="git-commit-id">{data.label}</span>}
+      {tags.length > 0 && (
+        <div className="git-commit-tags">
+          {tags.map(tag => <span key={tag} className="git-commit-tag">{tag}</span>)}
+        </div>
+      )}
+      <Handle type="source" position={sourcePosition ?? Position.Right} isConnectable={false} />
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Handle, Position, NodeProps } from 'reactflow';
+import { MindmapShape } from '../../core/mindmapDiagram';
+
+// Tree layouts join nodes side to side, radial layouts centre to centre
+const HANDLES: Array<{ id: string; position: Position }> = [
+  { id: 'left', position: Position.Left },
+  { id: 'right', position: Position.Right },
+  { id: 'centre', position: Position.Top },
+];
+
+// A mindmap topic in its Mermaid shape; nodes with children get a button to collapse the branch
+export function MindmapNode({ id, data }: NodeProps) {
+  const shape: MindmapShape = data.shape ?? 'default';
+  const className = ['mindmap-node', `mindmap-${shape}`, data.depth === 0 ? 'mindmap-root' : ''].join(' ').trim();
+
+  return (
+    <div className={className} style={{ '--mindmap-color': data.color } as React.CSSProperties}>
+      {HANDLES.map(({ id: handleId, position }) => (
+        <Handle
+          key={`target-${handleId}`}
+          id={handleId}
+          type="target"
+          position={position}
+          isConnectable={false}
+          className={`mindmap-handle mindmap-handle-${handleId}`}
+        />
+      ))}
+      {HANDLES.map(({ id: handleId, position }) => (
+        <Handle
+          key={`source-${handleId}`}
+          id={handleId}
+          type="source"
+          position={position}
+          isConnectable={false}
+          className={`mindmap-handle mindmap-handle-${handleId}`}
+        />
+      ))}
+      {data.icon ? <i className={`mindmap-icon ${data.icon}`} /> : null}
+      <span className="mindmap-label">{data.label}</span>
+      {data.childCount > 0 && data.onToggleCollapse ? (
+        <button
+          className="mindmap-collapse nodrag"
+          title={data.collapsed ? `Expand ${data.childCount} children` : 'Collapse branch'}
+          onClick={(event) => {
+            event.stopPropagation();
+            data.onToggleCollapse(id);
+          }}
+        >
+          {data.collapsed ? `+${data.childCount}` : '−'}
+        </button>
+      ) : null}
+    </div>
+  );
+}
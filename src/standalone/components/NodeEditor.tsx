@@ -13,30 +13,43 @@ export function NodeEditor({ node, onUpdate, onClose }: NodeEditorProps) {
   const [description, setDescription] = useState('');
   const [backgroundColor, setBackgroundColor] = useState('#ffffff');
   const [borderColor, setBorderColor] = useState('#222222');
+
+  // Outlined shapes sit in a transparent box and draw their outline in data.colors
+  const nodeColors = node?.data.outlined ? node.data.colors : node?.style;
   
   useEffect(() => {
     if (node) {
       setLabel(node.data.label || '');
       setGithubUrl(node.data.githubUrl || '');
       setDescription(node.data.description || '');
-      setBackgroundColor(node.style?.backgroundColor || '#ffffff');
-      setBorderColor(node.style?.borderColor || '#222222');
+      setBackgroundColor(nodeColors?.backgroundColor || '#ffffff');
+      setBorderColor(nodeColors?.borderColor || '#222222');
     }
   }, [node]);
   
   if (!node) return null;
   
   const handleSave = () => {
+    // Colour changes become the node's Mermaid style, so they survive serialization
+    const colorsChanged = backgroundColor !== (nodeColors?.backgroundColor || '#ffffff')
+      || borderColor !== (nodeColors?.borderColor || '#222222');
     onUpdate(node.id, {
       label,
       githubUrl,
       description,
-      style: {
-        ...node.style,
-        backgroundColor,
-        borderColor,
-        border: `2px solid ${borderColor}`,
-      }
+      ...(colorsChanged && {
+        mermaidStyle: { ...node.data.mermaidStyle, fill: backgroundColor, stroke: borderColor },
+      }),
+      ...(node.data.outlined ? {
+        colors: { ...node.data.colors, backgroundColor, borderColor },
+      } : {
+        style: {
+          ...node.style,
+          backgroundColor,
+          borderColor,
+          border: `2px solid ${borderColor}`,
+        }
+      }),
     });
     onClose();
   };
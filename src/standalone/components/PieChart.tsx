@@ -0,0 +1,57 @@
+import { NodeProps } from 'reactflow';
+import { PieSlice } from '../../core/pieChart';
+
+// Path of one slice, angles in radians clockwise from twelve o'clock
+function slicePath(radius: number, start: number, end: number): string {
+  const point = (angle: number) => `${radius * Math.sin(angle)} ${-radius * Math.cos(angle)}`;
+  if (end - start >= Math.PI * 2 - 1e-6) {
+    // A lone slice is a full circle, which a single arc cannot draw
+    return `M 0 ${-radius} A ${radius} ${radius} 0 1 1 0 ${radius} A ${radius} ${radius} 0 1 1 0 ${-radius} Z`;
+  }
+  const largeArc = end - start > Math.PI ? 1 : 0;
+  return `M 0 0 L ${point(start)} A ${radius} ${radius} 0 ${largeArc} 1 ${point(end)} Z`;
+}
+
+// A pie chart drawn as SVG, with each slice's share written on it
+export function PieChart({ data }: NodeProps) {
+  const slices: PieSlice[] = data.slices ?? [];
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const radius = 50;
+
+  let angle = 0;
+  const arcs = slices.map(slice => {
+    const start = angle;
+    angle += total > 0 ? (slice.value / total) * Math.PI * 2 : 0;
+    return { slice, start, end: angle };
+  });
+
+  return (
+    <div className="pie-chart">
+      {data.title && <div className="pie-chart-title">{data.title}</div>}
+      <svg viewBox="-52 -52 104 104" width="100%" height="100%">
+        {arcs.map(({ slice, start, end }, index) => {
+          const middle = (start + end) / 2;
+          const share = total > 0 ? (slice.value / total) * 100 : 0;
+          return (
+            <g key={index}>
+              <path d={slicePath(radius, start, end)} fill={slice.color} className="pie-slice">
+                <title>{`${slice.label}: ${slice.value}`}</title>
+              </path>
+              {share >= 3 && (
+                <text
+                  x={radius * 0.65 * Math.sin(middle)}
+                  y={-radius * 0.65 * Math.cos(middle)}
+                  className="pie-slice-label"
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                >
+                  {`${share.toFixed(share < 10 ? 1 : 0)}%`}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { NodeProps } from 'reactflow';
+
+// One pie chart legend entry: the slice colour, its label and, with showData, its value
+export function PieLegend({ data }: NodeProps) {
+  return (
+    <div className="pie-legend" title={`${data.percentage.toFixed(1)}%`}>
+      <span className="pie-legend-swatch" style={{ background: data.color }} />
+      <span className="pie-legend-label">{data.label}</span>
+      {data.showData && <span className="pie-legend-value">[{data.value}]</span>}
+    </div>
+  );
+}
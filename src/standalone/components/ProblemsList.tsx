@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { ConversionDiagnostic } from '../../core/diagnostics';
+
+interface ProblemsListProps {
+  diagnostics: ConversionDiagnostic[];
+  // Docked panels float over a rendered canvas and can be collapsed
+  docked?: boolean;
+}
+
+const SEVERITY_ICONS: Record<ConversionDiagnostic['severity'], string> = {
+  error: '⛔',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+export function ProblemsList({ diagnostics, docked = false }: ProblemsListProps) {
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (diagnostics.length === 0) return null;
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.filter(d => d.severity === 'warning').length;
+
+  return (
+    <div className={`problems-list ${docked ? 'docked' : ''}`}>
+      <div className="problems-header" onClick={() => docked && setCollapsed(!collapsed)}>
+        <strong>Problems</strong>
+        <span className="problems-summary">
+          {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+        </span>
+        {docked && <span className="problems-toggle">{collapsed ? '▲' : '▼'}</span>}
+      </div>
+      {!collapsed && (
+        <ul>
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index} className={`problem-${diagnostic.severity}`}>
+              <span className="problem-icon">{SEVERITY_ICONS[diagnostic.severity]}</span>
+              <span className="problem-location">{diagnostic.line}:{diagnostic.column}</span>
+              <span className="problem-message">{diagnostic.message}</span>
+              {diagnostic.text && <code className="problem-text" title={diagnostic.text}>{diagnostic.text}</code>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
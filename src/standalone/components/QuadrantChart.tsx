@@ -0,0 +1,32 @@
+import { NodeProps } from 'reactflow';
+
+// Quadrants are listed in Mermaid's order; this is where each one sits in the 2×2 grid
+const GRID_AREAS = ['1 / 2', '1 / 1', '2 / 1', '2 / 2'];
+
+// The quadrant chart background: four labelled quadrants with the axis labels around them
+export function QuadrantChart({ data }: NodeProps) {
+  const quadrants: Array<{ label?: string; fill: string }> = data.quadrants ?? [];
+
+  return (
+    <div className="quadrant-chart">
+      {data.title && <div className="quadrant-chart-title">{data.title}</div>}
+      {quadrants.map((quadrant, index) => (
+        <div
+          key={index}
+          className="quadrant"
+          style={{ background: quadrant.fill, gridArea: GRID_AREAS[index] }}
+        >
+          {quadrant.label && <span className="quadrant-label">{quadrant.label}</span>}
+        </div>
+      ))}
+      <div className="quadrant-axis quadrant-axis-x">
+        <span>{data.xAxis?.left}</span>
+        <span>{data.xAxis?.right}</span>
+      </div>
+      <div className="quadrant-axis quadrant-axis-y">
+        <span>{data.yAxis?.bottom}</span>
+        <span>{data.yAxis?.top}</span>
+      </div>
+    </div>
+  );
+}
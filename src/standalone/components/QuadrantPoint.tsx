@@ -0,0 +1,19 @@
+import { NodeProps } from 'reactflow';
+
+// A quadrant chart point, labelled below, with its coordinates in the tooltip
+export function QuadrantPoint({ data }: NodeProps) {
+  return (
+    <div
+      className="quadrant-point"
+      title={`${data.label} [${data.x}, ${data.y}]`}
+      style={{
+        background: data.color,
+        borderColor: data.strokeColor,
+        borderWidth: data.strokeWidth,
+        borderStyle: data.strokeColor || data.strokeWidth ? 'solid' : 'none',
+      }}
+    >
+      <span className="quadrant-point-label">{data.label}</span>
+    </div>
+  );
+}
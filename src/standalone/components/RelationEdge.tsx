@@ -0,0 +1,74 @@
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, Position, getSmoothStepPath } from 'reactflow';
+
+// Where an end label (cardinality) sits relative to the point the edge leaves its node
+function endLabelOffset(position: Position): { x: number; y: number } {
+  switch (position) {
+    case Position.Left:
+      return { x: -14, y: -14 };
+    case Position.Bottom:
+      return { x: 14, y: 14 };
+    default:
+      return { x: 14, y: -14 };
+  }
+}
+
+// A smoothstep edge with a centre label plus optional labels at either end,
+// e.g. the cardinalities of a class relationship
+export function RelationEdge({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  label,
+  style,
+  markerStart,
+  markerEnd,
+  data
+}: EdgeProps) {
+  const [path, labelX, labelY] = getSmoothStepPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition
+  });
+
+  const sourceOffset = endLabelOffset(sourcePosition);
+  const targetOffset = endLabelOffset(targetPosition);
+  const placeLabel = (x: number, y: number) => ({
+    transform: `translate(-50%, -50%) translate(${x}px, ${y}px)`
+  });
+
+  return (
+    <>
+      <BaseEdge id={id} path={path} style={style} markerStart={markerStart} markerEnd={markerEnd} />
+      <EdgeLabelRenderer>
+        {label && (
+          <div className="relation-edge-label" style={placeLabel(labelX, labelY)}>
+            {label}
+          </div>
+        )}
+        {data?.sourceLabel && (
+          <div
+            className="relation-edge-end-label"
+            style={placeLabel(sourceX + sourceOffset.x, sourceY + sourceOffset.y)}
+          >
+            {data.sourceLabel}
+          </div>
+        )}
+        {data?.targetLabel && (
+          <div
+            className="relation-edge-end-label"
+            style={placeLabel(targetX + targetOffset.x, targetY + targetOffset.y)}
+          >
+            {data.targetLabel}
+          </div>
+        )}
+      </EdgeLabelRenderer>
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import { BaseEdge, EdgeLabelRenderer, EdgeProps } from 'reactflow';
+
+const LOOP_WIDTH = 50;
+const LOOP_HEIGHT = 30;
+
+// A sequence message from a participant to itself: it leaves the lifeline to
+// the right and comes back a little lower, with the label beside the loop
+export function SelfMessageEdge({
+  id,
+  sourceX,
+  sourceY,
+  targetY,
+  label,
+  style,
+  markerStart,
+  markerEnd
+}: EdgeProps) {
+  // Source and target are the same lifeline point, so its handles give its centre
+  const x = sourceX + 6;
+  const y = (sourceY + targetY) / 2;
+  const path = `M ${x} ${y} H ${x + LOOP_WIDTH} V ${y + LOOP_HEIGHT} H ${x}`;
+
+  return (
+    <>
+      <BaseEdge id={id} path={path} style={style} markerStart={markerStart} markerEnd={markerEnd} />
+      {label && (
+        <EdgeLabelRenderer>
+          <div
+            className="relation-edge-label"
+            style={{ transform: `translate(0, -50%) translate(${x + LOOP_WIDTH + 8}px, ${y + LOOP_HEIGHT / 2}px)` }}
+          >
+            {label}
+          </div>
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
+}
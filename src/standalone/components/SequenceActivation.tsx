@@ -0,0 +1,4 @@
+// A participant's activation bar, drawn over its lifeline
+export function SequenceActivation() {
+  return <div className="sequence-activation" />;
+}
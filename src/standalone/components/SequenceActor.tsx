@@ -0,0 +1,18 @@
+import { Handle, Position, NodeProps } from 'reactflow';
+
+// A sequence diagram actor: a stick figure above its name, as Mermaid draws it
+export function SequenceActor({ data }: NodeProps) {
+  return (
+    <div className="sequence-actor">
+      <Handle type="target" position={Position.Top} isConnectable={false} />
+      <svg className="sequence-actor-figure" width="28" height="44" viewBox="0 0 28 44" aria-hidden="true">
+        <g fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+          <circle cx="14" cy="7" r="6" />
+          <path d="M14 13 V29 M3 19 H25 M14 29 L5 42 M14 29 L23 42" />
+        </g>
+      </svg>
+      <div className="sequence-actor-label">{data.label}</div>
+      <Handle type="source" position={Position.Bottom} isConnectable={false} />
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { NodeProps } from 'reactflow';
+
+interface FrameSection {
+  label: string;
+  offset: number; // Distance of the divider from the top of the frame
+}
+
+// The frame drawn around a sequence diagram block (loop, alt, opt, par, ...),
+// with a dashed divider for each else/and/option section. Participant boxes
+// use the same frame with a centred title.
+export function SequenceFrame({ data }: NodeProps) {
+  const sections: FrameSection[] = data.sections ?? [];
+
+  return (
+    <div
+      className={`sequence-frame sequence-frame-${data.kind}`}
+      style={data.color ? { background: data.color } : undefined}
+    >
+      {data.kind === 'box' && data.label && <div className="sequence-box-label">{data.label}</div>}
+      {data.kind !== 'rect' && data.kind !== 'box' && (
+        <div className="sequence-frame-header">
+          <span className="sequence-frame-kind">{data.kind}</span>
+          {data.label && <span className="sequence-frame-label">[{data.label}]</span>}
+        </div>
+      )}
+      {sections.map((section, index) => (
+        <div key={index} className="sequence-frame-divider" style={{ top: section.offset }}>
+          {section.label && <span className="sequence-frame-label">[{section.label}]</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
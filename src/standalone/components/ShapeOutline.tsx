@@ -0,0 +1,48 @@
+// Outline paths in a 100x100 box, stretched to the node's size.
+// The first path is filled; the rest are stroke-only details.
+const SHAPE_PATHS: Record<string, string[]> = {
+  diamond: ['M50 1 L99 50 L50 99 L1 50 Z'],
+  choice: ['M50 1 L99 50 L50 99 L1 50 Z'],
+  hexagon: ['M15 1 L85 1 L99 50 L85 99 L15 99 L1 50 Z'],
+  subroutine: ['M1 1 H99 V99 H1 Z', 'M9 1 V99 M91 1 V99'],
+  cylinder: [
+    'M1 12 A49 11 0 0 1 99 12 V88 A49 11 0 0 1 1 88 Z',
+    'M1 12 A49 11 0 0 0 99 12',
+  ],
+  asymmetric: ['M1 1 H99 V99 H1 L16 50 Z'],
+  parallelogram: ['M16 1 H99 L84 99 H1 Z'],
+  'parallelogram-alt': ['M1 1 H84 L99 99 H16 Z'],
+  trapezoid: ['M16 1 H84 L99 99 H1 Z'],
+  'trapezoid-alt': ['M1 1 H99 L84 99 H16 Z'],
+  'double-circle': [
+    'M1 50 A49 49 0 1 0 99 50 A49 49 0 1 0 1 50 Z',
+    'M8 50 A42 42 0 1 0 92 50 A42 42 0 1 0 8 50 Z',
+  ],
+};
+
+interface ShapeOutlineProps {
+  shape: string;
+  fill: string;
+  stroke: string;
+  strokeWidth?: string;
+  strokeDasharray?: string;
+}
+
+export function ShapeOutline({ shape, fill, stroke, strokeWidth = '2', strokeDasharray }: ShapeOutlineProps) {
+  const [outline, ...details] = SHAPE_PATHS[shape] || SHAPE_PATHS.subroutine.slice(0, 1);
+  const strokeProps = {
+    stroke,
+    strokeWidth: parseFloat(strokeWidth) || 2,
+    strokeDasharray,
+    vectorEffect: 'non-scaling-stroke' as const,
+  };
+
+  return (
+    <svg className="shape-outline" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+      <path d={outline} fill={fill} {...strokeProps} />
+      {details.map((d, index) => (
+        <path key={index} d={d} fill="none" {...strokeProps} />
+      ))}
+    </svg>
+  );
+}
@@ -1,16 +1,32 @@
-import { NodeProps } from 'reactflow';
+import { Handle, Position, NodeProps } from 'reactflow';
 
-export function SubgraphNode({ data, selected }: NodeProps) {
+export function SubgraphNode({
+  data,
+  selected,
+  sourcePosition = Position.Bottom,
+  targetPosition = Position.Top
+}: NodeProps) {
   return (
     <div className={`subgraph-node ${selected ? 'selected' : ''}`}>
-      <div className="subgraph-header">
-        <div className="subgraph-title">{data.label}</div>
-      </div>
+      {/* Edges in the diagram can start or end at the container itself */}
+      <Handle type="target" position={targetPosition} isConnectable={false} />
+      {/* Untitled containers, such as concurrent state regions, have no header */}
+      {data.label && (
+        <div className="subgraph-header">
+          <div
+            className="subgraph-title"
+            style={data.textColor ? { '--node-text-color': data.textColor } as React.CSSProperties : undefined}
+          >
+            {data.label}
+          </div>
+        </div>
+      )}
       <div className="subgraph-drag-handle" title="Drag to move container">
         <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
           <path d="M10 13a1 1 0 100-2 1 1 0 000 2zM10 9a1 1 0 100-2 1 1 0 000 2zM10 5a1 1 0 100-2 1 1 0 000 2zM6 13a1 1 0 100-2 1 1 0 000 2zM6 9a1 1 0 100-2 1 1 0 000 2zM6 5a1 1 0 100-2 1 1 0 000 2z"/>
         </svg>
       </div>
+      <Handle type="source" position={sourcePosition} isConnectable={false} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+
+// Headless Node build: the core library (index.js) and the command line (cli.js)
+export default defineConfig({
+  build: {
+    ssr: true,
+    rollupOptions: {
+      input: {
+        index: resolve(__dirname, 'src/core/index.ts'),
+        cli: resolve(__dirname, 'src/cli/index.ts'),
+      },
+      output: {
+        format: 'cjs',
+        entryFileNames: '[name].js',
+        banner: (chunk) => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+    outDir: 'node-dist',
+    emptyOutDir: true,
+    target: 'node18',
+  },
+});